@@ -4,7 +4,7 @@
 */
 /* tslint:disable */
 
-import {GoogleGenAI} from '@google/genai';
+import {GoogleGenAI, Schema, Type} from '@google/genai';
 import {marked} from 'marked';
 
 // ============================================================================
@@ -59,6 +59,18 @@ class AudioAnalyzer {
     return this.dataArray;
   }
 
+  /** Root-mean-square level of the current time-domain frame, from 0 (silence) to 1. */
+  public getRmsLevel(): number | null {
+    const data = this.getWaveformData();
+    if (!data) return null;
+    let sumOfSquares = 0;
+    for (let i = 0; i < data.length; i++) {
+      const sample = (data[i] - 128) / 128;
+      sumOfSquares += sample * sample;
+    }
+    return Math.sqrt(sumOfSquares / data.length);
+  }
+
   public cleanup(): void {
     this.source?.disconnect();
     if (this.audioContext?.state !== 'closed') {
@@ -185,6 +197,10 @@ class WaveformVisualizer {
 
   public pause(): void { this.state.isPaused = true; }
   public resume(): void { this.state.isPaused = false; }
+
+  public getRmsLevel(): number | null {
+    return this.state.isActive ? this.audioAnalyzer.getRmsLevel() : null;
+  }
   
   public stop(): void {
     this.state.isActive = false; // This will cause the animation loop to stop itself.
@@ -202,19 +218,29 @@ class WaveformVisualizer {
 
 // ============================================================================
 
-const MODEL_NAME = 'gemini-2.5-flash';
-const COST_PER_1K_PROMPT_TOKENS = 0.000125; // gemini-2.5-flash input
-const COST_PER_1K_COMPLETION_TOKENS = 0.000250; // gemini-2.5-flash output
-
 // Mode definitions
-type ModeID = 'doctor' | 'journal' | 'learning' | 'custom';
+type BuiltInModeID = 'doctor' | 'journal' | 'learning';
+type ModeID = string; // A BuiltInModeID or the id of a user-created mode
 
 interface Mode {
   id: ModeID;
   name: string;
   instructions: string;
+  version: number; // Bumped whenever the instructions change
+  builtIn?: boolean;
+  structuredOutput?: 'clinicalNote'; // Polished via a response schema instead of free markdown
+}
+
+/** Snapshot of the exact mode version that produced a note; survives later edits or deletion. */
+interface ModeRef {
+  id: ModeID;
+  name: string;
+  version: number;
+  instructions: string;
 }
 
+// The markdown template that clones and exported packs of the doctor mode start from, and that refining a
+// doctor's note follows. The mode itself polishes with CLINICAL_NOTE_EXTRACTION_INSTRUCTIONS (see promptInstructions).
 const DOCTOR_MODE_INSTRUCTIONS = `You are a medical scribe assisting a doctor. Your task is to transform a raw, transcribed conversation with a patient into a structured clinical note. Your output must be in markdown.
 
 First, populate the patient details table below. Extract the information from the conversation. If a detail is not mentioned, leave the placeholder text (e.g., \`[MR. NO]\`) as is. The **Department** is "Physiotherapy" by default unless specified otherwise.
@@ -253,15 +279,20 @@ After the table, structure the rest of the note using the SOAP format:
   - Patient education and counseling points.
   - Follow-up instructions.`;
 
-const MODES: Record<ModeID, Mode> = {
+const BUILT_IN_MODES: Record<BuiltInModeID, Mode> = {
   doctor: {
     id: 'doctor',
     name: "Doctor's Note",
     instructions: DOCTOR_MODE_INSTRUCTIONS,
+    version: 1,
+    builtIn: true,
+    structuredOutput: 'clinicalNote',
   },
   journal: {
     id: 'journal',
     name: 'Personal Journal',
+    version: 1,
+    builtIn: true,
     instructions: `You are a reflective journaling partner. Your task is to transform a raw, first-person transcription of an inner monologue into a clear and organized personal journal entry. Your output must be in markdown.
     
 # PROCESS:
@@ -281,6 +312,8 @@ If the monologue contains self-directed questions (e.g., "What should I do about
   learning: {
     id: 'learning',
     name: 'Study Notes',
+    version: 1,
+    builtIn: true,
     instructions: `You are a student organizing study notes from a lecture or study session. Structure the output in markdown.
 
 # Study Notes: [Insert Topic]
@@ -297,17 +330,30 @@ List any questions or topics that remained unclear and require further review.
 ## 4. Connections
 Note how this topic connects to other subjects or your personal knowledge.`,
   },
-  custom: {
-    id: 'custom',
-    name: 'Custom Instructions',
-    instructions: '', // This will be dynamically updated from localStorage.
-  },
 };
 
+// A helpful default prompt for first-time users.
+const DEFAULT_CUSTOM_INSTRUCTIONS = `You are a helpful assistant. Please follow these instructions:
+- Summarize the text into three bullet points.
+- Identify any questions asked within the text.
+- List all action items clearly using markdown checkboxes.`;
+
 const TIMEZONES = [
   'UTC', 'Warsaw', 'Aurangabad', 'Pune', 'Mumbai'
 ];
 
+// Auto-lock timeouts in minutes; 0 disables the trigger.
+const AUTO_LOCK_OPTIONS = [0, 1, 2, 5, 10, 15, 30];
+const DEFAULT_IDLE_LOCK_MINUTES = 5;
+const DEFAULT_HIDDEN_LOCK_MINUTES = 2;
+
+// PIN brute-force throttling: a few free attempts, then doubling delays, then a hard lockout.
+const PIN_FREE_ATTEMPTS = 3;
+const PIN_BASE_DELAY_MS = 30 * 1000;
+const PIN_MAX_ATTEMPTS = 10;
+// Wrong current PINs when changing it: the app is already unlocked, so these lock it instead of counting toward the lockout.
+const PIN_CHANGE_MAX_ATTEMPTS = 3;
+
 interface Note {
   id: string;
   rawTranscription: string;
@@ -316,266 +362,3519 @@ interface Note {
   duration: number; // in ms
   audioSize: number; // in bytes
   modeId: ModeID;
+  modeRef?: ModeRef; // Set when the note is polished
+  clinicalNote?: ClinicalNote; // Structured source of polishedNote in doctor mode
+  polishIncomplete?: boolean; // The polishing stream failed partway; polishedNote is partial
+  polishEdited?: boolean; // Edited by hand since the last polish, so clinicalNote may no longer match
   promptTokens: number;
   completionTokens: number;
   cost: number;
+  costBreakdown?: CostBreakdown; // Absent on notes priced before audio and text input were told apart
+  models?: Partial<Record<AiStep, string>>; // Which model produced the transcript and which the polish
+  speakerNames?: Record<string, string>; // "Speaker 1" -> "Doctor", applied to the whole note
+  renditions?: NoteRendition[]; // Every polish of the transcript; the polish fields above mirror the active one
+  activeRenditionId?: string;
+  versions?: PolishedVersion[]; // Append-only history of every polish and round of edits, across renditions
+  pendingLaps?: PendingLap[]; // Every lap while any of them still fails; their audio waits in the recording journal
 }
 
-class VoiceNotesApp {
-  private genAI: any = null;
-  private mediaRecorder: MediaRecorder | null = null;
-  private newButton: HTMLButtonElement;
-  private uploadButton: HTMLButtonElement;
-  private downloadAudioButton: HTMLButtonElement;
-  private downloadNoteButton: HTMLButtonElement;
-  private audioUploadInput: HTMLInputElement;
-  private themeToggleButton: HTMLButtonElement;
-  private copyButton: HTMLButtonElement;
-  private copyMetaButton: HTMLButtonElement;
-  private copyRawButton: HTMLButtonElement;
-  private themeToggleIcon: HTMLElement;
-  private editCustomPromptButton: HTMLButtonElement;
-  private audioChunks: Blob[] = [];
-  private sessionAudioChunks: Blob[] = [];
-  private sessionMimeType: string = '';
-  
-  // Recording State
-  private isRecording = false;
-  private isPaused = false;
-  private isProcessing = false;
-  private stopReason: 'stop' | 'lap' | null = null;
-  private lapCount = 0;
-  private allRawLapText = '';
-  private totalDurationMs = 0;
+/** One polish of a note's transcript, e.g. a SOAP note and a patient summary of the same visit. */
+interface NoteRendition {
+  id: string;
+  name: string;
+  createdAt: number;
+  modeId: ModeID;
+  modeRef?: ModeRef;
+  polishedNote: string;
+  clinicalNote?: ClinicalNote;
+  polishIncomplete?: boolean;
+  polishEdited?: boolean;
+}
 
-  private currentNote: Note | null = null;
-  private stream: MediaStream | null = null;
-  private currentModeId: ModeID = 'doctor';
+/** Copies the note's live polish, including any edits, back into its active rendition. */
+function storeActiveRendition(note: Note): void {
+  const index = note.renditions?.findIndex(rendition => rendition.id === note.activeRenditionId) ?? -1;
+  if (index < 0) return;
+  note.renditions![index] = {
+    ...note.renditions![index],
+    polishedNote: note.polishedNote,
+    clinicalNote: note.clinicalNote,
+    polishIncomplete: note.polishIncomplete,
+    polishEdited: note.polishEdited,
+  };
+}
 
-  // UI Elements for Mode Selector
-  private modeSelectorContainer: HTMLDivElement;
-  private modeSelectorButton: HTMLButtonElement;
-  private currentModeNameSpan: HTMLSpanElement;
-  private modeList: HTMLDivElement;
+function activateRendition(note: Note, rendition: NoteRendition): void {
+  storeActiveRendition(note);
+  note.activeRenditionId = rendition.id;
+  note.polishedNote = rendition.polishedNote;
+  note.clinicalNote = rendition.clinicalNote;
+  note.polishIncomplete = rendition.polishIncomplete;
+  note.polishEdited = rendition.polishEdited;
+  note.modeId = rendition.modeId;
+  note.modeRef = rendition.modeRef;
+}
 
-  // UI Elements for Timezone Selector
-  private timezoneSelectorContainer: HTMLDivElement;
-  private timezoneSelectorButton: HTMLButtonElement;
-  private currentTimezoneNameSpan: HTMLSpanElement;
-  private timezoneList: HTMLDivElement;
-  private currentTimezone: string = 'Aurangabad';
-  
-  // Custom Prompt Modal
-  private customPromptModal: HTMLDivElement;
-  private customPromptTextarea: HTMLTextAreaElement;
-  private saveCustomPromptButton: HTMLButtonElement;
-  private cancelCustomPromptButton: HTMLButtonElement;
-  private customPromptInstructions: string = '';
-  private customPromptSettingsItem: HTMLDivElement;
+/** Numbers repeat polishes in the same mode: "SOAP Note", "SOAP Note (2)". */
+function uniqueRenditionName(note: Note, baseName: string): string {
+  const taken = new Set((note.renditions ?? []).map(rendition => rendition.name));
+  let name = baseName;
+  for (let n = 2; taken.has(name); n++) name = `${baseName} (${n})`;
+  return name;
+}
 
-  // Info Modal
-  private infoModal: HTMLDivElement;
-  private infoModalTitle: HTMLHeadingElement;
-  private infoModalContent: HTMLDivElement;
-  private infoModalCloseButton: HTMLButtonElement;
+// Laps are transcribed in the background while recording continues.
+const MAX_PARALLEL_TRANSCRIPTIONS = 2;
+// How often the recorder hands over audio, which is journalled to IndexedDB straight away.
+const RECORDING_TIMESLICE_MS = 5000;
 
-  // Settings Menu
-  private settingsMenuContainer: HTMLDivElement;
-  private settingsButton: HTMLButtonElement;
-  private settingsMenuList: HTMLDivElement;
-  
-  // Metadata display
-  private noteMetadata: HTMLDivElement;
-  private metaDatetime: HTMLDivElement;
-  private metaDuration: HTMLDivElement;
-  private metaSize: HTMLDivElement;
-  private metaMode: HTMLDivElement;
-  private metaCost: HTMLDivElement;
+type LapStatus = 'queued' | 'transcribing' | 'done' | 'failed';
 
-  // Live recording UI
-  private fabRecord: HTMLButtonElement;
-  private recordingDialog: HTMLDivElement;
-  private liveRecordingTitle: HTMLDivElement;
-  private liveWaveformCanvas: HTMLCanvasElement;
-  private liveRecordingTimerDisplay: HTMLDivElement;
+const LAP_STATUS_DISPLAY: Record<LapStatus, { icon: string; label: string }> = {
+  queued: { icon: 'fa-clock', label: 'Queued' },
+  transcribing: { icon: 'fa-spinner fa-spin', label: 'Transcribing' },
+  done: { icon: 'fa-check', label: 'Done' },
+  failed: { icon: 'fa-exclamation-triangle', label: 'Failed' },
+};
 
-  // Recording Controls
-  private stopButton: HTMLButtonElement;
-  private pauseButton: HTMLButtonElement;
-  private lapButton: HTMLButtonElement;
+interface LapSegment {
+  lapNumber: number;
+  blob: Blob;
+  startMs: number; // Offsets into the session, excluding paused time
+  endMs: number;
+  status: LapStatus;
+  text: string;
+  error?: string; // Why the last attempt failed; never part of the transcript
+  uploadWindow?: boolean; // A window of a long upload: it overlaps its neighbours and is stitched, not headed
+}
 
-  // Content display
-  private rawTranscription: HTMLDivElement;
-  private polishedNote: HTMLDivElement;
-  private globalStatus: HTMLDivElement;
+/** A lap as saved on its note, without the audio. */
+type PendingLap = Omit<LapSegment, 'blob'>;
 
-  // Tab UI
-  private tabButtons: NodeListOf<HTMLButtonElement>;
-  private tabIndicator: HTMLDivElement;
-  private tabPanes: NodeListOf<HTMLDivElement>;
-  
-  // NEW: Waveform Visualizer
-  private waveformVisualizer: WaveformVisualizer | null = null;
-  private timerIntervalId: number | null = null;
-  private recordingStartTime: number = 0;
+/** "Lap 3" for a recording, "Part 3" for a window of an upload. */
+function describeLap(segment: Pick<LapSegment, 'lapNumber' | 'uploadWindow'>): string {
+  return `${segment.uploadWindow ? 'Part' : 'Lap'} ${segment.lapNumber}`;
+}
 
-  // Mobile UI elements
-  private moreMenuContainer: HTMLDivElement;
-  private moreMenuButton: HTMLButtonElement;
-  private moreMenuList: HTMLDivElement;
-  private moreMenuThemeToggleIcon: HTMLElement | null = null;
-  private bottomNav: HTMLElement;
-  private bottomNavNew: HTMLButtonElement;
-  private bottomNavRecord: HTMLButtonElement;
-  private bottomNavUpload: HTMLButtonElement;
-  private timezoneModal: HTMLDivElement;
-  private mobileTimezoneList: HTMLDivElement;
-  private timezoneModalCloseButton: HTMLButtonElement;
+// Auto-lap cuts at the first pause once a segment reaches the minimum length, and always at the maximum.
+const AUTO_LAP_MIN_SEGMENT_MS = 60 * 1000;
+const AUTO_LAP_MAX_SEGMENT_MS = 5 * 60 * 1000;
+const AUTO_LAP_SILENCE_RMS = 0.02;
+const AUTO_LAP_SILENCE_HOLD_MS = 800; // How long the level must stay below the threshold to count as a pause
+const AUTO_LAP_CHECK_INTERVAL_MS = 100;
+
+interface ActiveRecorder {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  lapNumber: number;
+  startMs: number;
+  endMs: number;
+  isFinal: boolean; // Stopping this recorder ends the session
+}
 
-  // Auto-download feature
-  private autoDownloadToggle: HTMLInputElement;
-  private autoDownloadEnabled: boolean = false;
+// ============================================================================
+// Mode Library (built-in and user-created modes)
+// ============================================================================
 
-  // Security properties
-  private pinModal: HTMLDivElement;
-  private pinTitle: HTMLHeadingElement;
-  private pinSubtitle: HTMLParagraphElement;
-  private pinForm: HTMLDivElement;
-  private pinInputs: HTMLInputElement[];
-  private pinErrorMessage: HTMLDivElement;
-  private pinSubmitButton: HTMLButtonElement;
-  private pinForgotButton: HTMLButtonElement;
-  private pinMode: 'set' | 'enter' | 'confirm' = 'enter';
-  private firstPinAttempt = '';
-  
-  // API Key properties
-  private apiKeyModal: HTMLDivElement;
-  private apiKeyInput: HTMLInputElement;
-  private saveApiKeyButton: HTMLButtonElement;
-  private toggleApiKeyVisibilityButton: HTMLButtonElement;
-  private updateApiKeyButton: HTMLButtonElement;
+/**
+ * Keeps the ordered list of user-created modes in localStorage and resolves
+ * mode ids against both the built-ins and the user's own modes.
+ */
+class ModeRegistry {
+  private static readonly STORAGE_KEY = 'scribeai_user_modes';
+  private static readonly BACKUP_KEY = 'scribeai_user_modes_backup';
+  private userModes: Mode[] = [];
+
+  public load(): void {
+    const saved = localStorage.getItem(ModeRegistry.STORAGE_KEY);
+    if (saved !== null) {
+      try {
+        const parsed: unknown = JSON.parse(saved);
+        if (!Array.isArray(parsed)) throw new Error('Saved modes are not a list');
+        this.userModes = (parsed as Mode[]).filter(
+          mode => mode && typeof mode.id === 'string' && typeof mode.instructions === 'string'
+        );
+      } catch (error) {
+        // Unreadable modes are set aside untouched rather than replaced, so they can still be recovered by hand.
+        console.error(`Failed to parse saved modes; the raw value is kept under ${ModeRegistry.BACKUP_KEY}:`, error);
+        localStorage.setItem(ModeRegistry.BACKUP_KEY, saved);
+      }
+      return;
+    }
+    // Carry the single legacy "custom" slot over under its old id so existing notes still resolve.
+    this.userModes = [{
+      id: 'custom',
+      name: 'Custom Instructions',
+      instructions: localStorage.getItem('customPromptInstructions') || DEFAULT_CUSTOM_INSTRUCTIONS,
+      version: 1,
+    }];
+    this.persist();
+    localStorage.removeItem('customPromptInstructions');
+  }
 
-  constructor() {
-    // Main buttons
-    this.newButton = document.getElementById('newButton') as HTMLButtonElement;
-    this.uploadButton = document.getElementById('uploadButton') as HTMLButtonElement;
-    this.downloadAudioButton = document.getElementById('downloadAudioButton') as HTMLButtonElement;
-    this.downloadNoteButton = document.getElementById('downloadNoteButton') as HTMLButtonElement;
-    this.audioUploadInput = document.getElementById('audioUploadInput') as HTMLInputElement;
-    this.themeToggleButton = document.getElementById('themeToggleButton') as HTMLButtonElement;
-    this.copyButton = document.getElementById('copyButton') as HTMLButtonElement;
-    this.copyMetaButton = document.getElementById('copyMetaButton') as HTMLButtonElement;
-    this.copyRawButton = document.getElementById('copyRawButton') as HTMLButtonElement;
-    this.themeToggleIcon = this.themeToggleButton.querySelector('i') as HTMLElement;
-    this.editCustomPromptButton = document.getElementById('editCustomPromptButton') as HTMLButtonElement;
-    this.autoDownloadToggle = document.getElementById('autoDownloadToggle') as HTMLInputElement;
+  private persist(): void {
+    localStorage.setItem(ModeRegistry.STORAGE_KEY, JSON.stringify(this.userModes));
+  }
 
-    // Settings Menu
-    this.settingsMenuContainer = document.getElementById('settingsMenuContainer') as HTMLDivElement;
-    this.settingsButton = document.getElementById('settingsButton') as HTMLButtonElement;
-    this.settingsMenuList = document.getElementById('settingsMenuList') as HTMLDivElement;
-    this.customPromptSettingsItem = document.getElementById('customPromptSettingsItem') as HTMLDivElement;
+  public getAll(): Mode[] {
+    return [...Object.values(BUILT_IN_MODES), ...this.userModes];
+  }
 
-    // Mobile UI elements
-    this.moreMenuContainer = document.getElementById('moreMenuContainer') as HTMLDivElement;
-    this.moreMenuButton = document.getElementById('moreMenuButton') as HTMLButtonElement;
-    this.moreMenuList = document.getElementById('moreMenuList') as HTMLDivElement;
-    this.bottomNav = document.getElementById('bottomNav') as HTMLElement;
-    this.bottomNavNew = document.getElementById('bottomNavNew') as HTMLButtonElement;
-    this.bottomNavRecord = document.getElementById('bottomNavRecord') as HTMLButtonElement;
-    this.bottomNavUpload = document.getElementById('bottomNavUpload') as HTMLButtonElement;
-    this.timezoneModal = document.getElementById('timezoneModal') as HTMLDivElement;
-    this.mobileTimezoneList = document.getElementById('mobileTimezoneList') as HTMLDivElement;
-    this.timezoneModalCloseButton = document.getElementById('timezoneModalCloseButton') as HTMLButtonElement;
+  public getUserModes(): Mode[] {
+    return [...this.userModes];
+  }
 
+  public get(id: ModeID): Mode | undefined {
+    return (BUILT_IN_MODES as Record<string, Mode>)[id] || this.userModes.find(mode => mode.id === id);
+  }
 
-    // Recording controls
-    this.fabRecord = document.getElementById('fabRecord') as HTMLButtonElement;
-    this.recordingDialog = document.getElementById('recordingDialog') as HTMLDivElement;
-    this.stopButton = document.getElementById('stopButton') as HTMLButtonElement;
-    this.pauseButton = document.getElementById('pauseButton') as HTMLButtonElement;
-    this.lapButton = document.getElementById('lapButton') as HTMLButtonElement;
-    
-    // Content areas
-    this.globalStatus = document.getElementById('globalStatus') as HTMLDivElement;
-    this.rawTranscription = document.getElementById('rawTranscription') as HTMLDivElement;
-    this.polishedNote = document.getElementById('polishedNote') as HTMLDivElement;
-    
-    // Mode Selector Elements
-    this.modeSelectorContainer = document.getElementById('modeSelectorContainer') as HTMLDivElement;
-    this.modeSelectorButton = document.getElementById('modeSelectorButton') as HTMLButtonElement;
-    this.currentModeNameSpan = document.getElementById('currentModeName') as HTMLSpanElement;
-    this.modeList = document.getElementById('modeList') as HTMLDivElement;
+  public isUserMode(id: ModeID): boolean {
+    return this.userModes.some(mode => mode.id === id);
+  }
 
-    // Timezone Selector Elements
-    this.timezoneSelectorContainer = document.getElementById('timezoneSelectorContainer') as HTMLDivElement;
-    this.timezoneSelectorButton = document.getElementById('timezoneSelectorButton') as HTMLButtonElement;
-    this.currentTimezoneNameSpan = document.getElementById('currentTimezoneName') as HTMLSpanElement;
-    this.timezoneList = document.getElementById('timezoneList') as HTMLDivElement;
+  /** Appends " (2)", " (3)"... until the name is not used by any other mode. */
+  public uniqueName(name: string, exceptId?: ModeID): string {
+    const base = name.trim() || 'Untitled Mode';
+    const taken = new Set(this.getAll().filter(mode => mode.id !== exceptId).map(mode => mode.name.toLowerCase()));
+    let candidate = base;
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})`;
+    }
+    return candidate;
+  }
 
-    // Custom Prompt Modal
-    this.customPromptModal = document.getElementById('customPromptModal') as HTMLDivElement;
-    this.customPromptTextarea = document.getElementById('customPromptTextarea') as HTMLTextAreaElement;
-    this.saveCustomPromptButton = document.getElementById('saveCustomPromptButton') as HTMLButtonElement;
-    this.cancelCustomPromptButton = document.getElementById('cancelCustomPromptButton') as HTMLButtonElement;
+  /** `version` carries over the version of an imported mode; new modes start at 1. */
+  public create(name: string, instructions: string, version = 1): Mode {
+    const mode: Mode = {
+      id: `mode_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      name: this.uniqueName(name),
+      instructions,
+      version,
+    };
+    this.userModes.push(mode);
+    this.persist();
+    return mode;
+  }
 
-    // Info Modal
-    this.infoModal = document.getElementById('infoModal') as HTMLDivElement;
-    this.infoModalTitle = document.getElementById('infoModalTitle') as HTMLHeadingElement;
-    this.infoModalContent = document.getElementById('infoModalContent') as HTMLDivElement;
-    this.infoModalCloseButton = document.getElementById('infoModalCloseButton') as HTMLButtonElement;
-    
-    // Metadata
-    this.noteMetadata = document.getElementById('noteMetadata') as HTMLDivElement;
-    this.metaDatetime = document.getElementById('meta-datetime') as HTMLDivElement;
-    this.metaDuration = document.getElementById('meta-duration') as HTMLDivElement;
-    this.metaSize = document.getElementById('meta-size') as HTMLDivElement;
-    this.metaMode = document.getElementById('meta-mode') as HTMLDivElement;
-    this.metaCost = document.getElementById('meta-cost') as HTMLDivElement;
+  /**
+   * Changed instructions bump the version. An imported `version` is kept when it is higher, but the
+   * version never goes back to one that notes may already reference.
+   */
+  public update(id: ModeID, changes: { name?: string; instructions?: string; version?: number }): Mode | undefined {
+    const mode = this.userModes.find(m => m.id === id);
+    if (!mode) return undefined;
+    if (changes.name !== undefined) {
+      mode.name = this.uniqueName(changes.name, id);
+    }
+    if (changes.instructions !== undefined && changes.instructions !== mode.instructions) {
+      mode.instructions = changes.instructions;
+      mode.version = Math.max(mode.version + 1, changes.version ?? 0);
+    }
+    this.persist();
+    return mode;
+  }
 
-    // Live display
-    this.liveRecordingTitle = document.getElementById('liveRecordingTitle') as HTMLDivElement;
-    this.liveWaveformCanvas = document.getElementById('liveWaveformCanvas') as HTMLCanvasElement;
-    this.liveRecordingTimerDisplay = document.getElementById('liveRecordingTimerDisplay') as HTMLDivElement;
+  public clone(id: ModeID): Mode | undefined {
+    const source = this.get(id);
+    return source ? this.create(`${source.name} (copy)`, source.instructions) : undefined;
+  }
 
-    // Tabs
-    this.tabButtons = document.querySelectorAll('.tab-button');
-    this.tabIndicator = document.querySelector('.tab-indicator') as HTMLDivElement;
-    this.tabPanes = document.querySelectorAll('.tab-pane');
-    
-    // Get PIN modal elements
-    this.pinModal = document.getElementById('pinModal') as HTMLDivElement;
-    this.pinTitle = document.getElementById('pinTitle') as HTMLHeadingElement;
-    this.pinSubtitle = document.getElementById('pinSubtitle') as HTMLParagraphElement;
-    this.pinForm = document.getElementById('pinForm') as HTMLDivElement;
-    this.pinInputs = Array.from(this.pinForm.querySelectorAll('.pin-input'));
-    this.pinErrorMessage = document.getElementById('pinErrorMessage') as HTMLDivElement;
-    this.pinSubmitButton = document.getElementById('pinSubmitButton') as HTMLButtonElement;
-    this.pinForgotButton = document.getElementById('pinForgotButton') as HTMLButtonElement;
+  public move(id: ModeID, offset: number): void {
+    const index = this.userModes.findIndex(mode => mode.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= this.userModes.length) return;
+    [this.userModes[index], this.userModes[target]] = [this.userModes[target], this.userModes[index]];
+    this.persist();
+  }
+
+  public remove(id: ModeID): void {
+    this.userModes = this.userModes.filter(mode => mode.id !== id);
+    this.persist();
+  }
+
+  public toRef(mode: Mode): ModeRef {
+    return { id: mode.id, name: mode.name, version: mode.version, instructions: promptInstructions(mode) };
+  }
+
+  public findByName(name: string): Mode | undefined {
+    const wanted = name.trim().toLowerCase();
+    return this.getAll().find(mode => mode.name.toLowerCase() === wanted);
+  }
+}
+
+// Shareable mode packs: a versioned JSON envelope around one or more mode definitions.
+const MODE_PACK_FORMAT = 'scribeai-mode-pack';
+const MODE_PACK_VERSION = 1;
+const MAX_MODE_NAME_LENGTH = 60;
+const MAX_MODE_INSTRUCTIONS_LENGTH = 20000;
+
+interface ModePackEntry {
+  name: string;
+  instructions: string;
+  metadata: {
+    version: number; // The mode's own version when it was exported
+    sourceId?: string;
+    builtIn?: boolean;
+  };
+}
+
+interface ModePack {
+  format: typeof MODE_PACK_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  modes: ModePackEntry[];
+}
+
+type ModeImportAction = 'rename' | 'replace' | 'skip';
+
+function buildModePack(modes: Mode[]): ModePack {
+  return {
+    format: MODE_PACK_FORMAT,
+    formatVersion: MODE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    modes: modes.map(mode => ({
+      name: mode.name,
+      instructions: mode.instructions,
+      metadata: { version: mode.version, sourceId: mode.id, builtIn: mode.builtIn || undefined },
+    })),
+  };
+}
+
+/** Validates untrusted JSON against the mode pack schema. Throws with a user-facing message. */
+function parseModePack(data: unknown): ModePack {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (!isObject(data) || data.format !== MODE_PACK_FORMAT) {
+    throw new Error('This file is not a ScribeAI mode pack.');
+  }
+  if (typeof data.formatVersion !== 'number' || data.formatVersion > MODE_PACK_VERSION) {
+    throw new Error('This mode pack was made by a newer version of ScribeAI.');
+  }
+  if (!Array.isArray(data.modes) || data.modes.length === 0) {
+    throw new Error('The mode pack does not contain any modes.');
+  }
+
+  const modes = data.modes.map((entry, index): ModePackEntry => {
+    const label = `Mode ${index + 1}`;
+    if (!isObject(entry)) throw new Error(`${label} is not a valid mode definition.`);
+    const { name, instructions } = entry;
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_MODE_NAME_LENGTH) {
+      throw new Error(`${label} needs a name of at most ${MAX_MODE_NAME_LENGTH} characters.`);
+    }
+    if (typeof instructions !== 'string' || !instructions.trim() || instructions.length > MAX_MODE_INSTRUCTIONS_LENGTH) {
+      throw new Error(`"${name}" needs instructions of at most ${MAX_MODE_INSTRUCTIONS_LENGTH} characters.`);
+    }
+    const metadata = isObject(entry.metadata) ? entry.metadata : {};
+    return {
+      name: name.trim(),
+      instructions: instructions.trim(),
+      metadata: {
+        version: typeof metadata.version === 'number' && metadata.version > 0 ? Math.floor(metadata.version) : 1,
+        sourceId: typeof metadata.sourceId === 'string' ? metadata.sourceId : undefined,
+        builtIn: metadata.builtIn === true || undefined,
+      },
+    };
+  });
+
+  return {
+    format: MODE_PACK_FORMAT,
+    formatVersion: data.formatVersion,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    modes,
+  };
+}
+
+// ============================================================================
+// Structured Clinical Note (doctor mode)
+// ============================================================================
+
+interface PatientDetails {
+  mrNo: string | null;
+  date: string | null;
+  name: string | null;
+  opdNo: string | null;
+  age: string | null;
+  sex: string | null;
+  department: string | null;
+  occupation: string | null;
+  address: string | null;
+  referredName: string | null;
+  attendantName: string | null;
+  finalDiagnosis: string | null;
+}
+
+interface Medication {
+  name: string;
+  dose: string | null;
+  route: string | null;
+  frequency: string | null;
+  duration: string | null;
+}
+
+interface DiagnosticTest {
+  name: string;
+  reason: string | null;
+}
+
+interface ClinicalNote {
+  patient: PatientDetails;
+  subjective: {
+    chiefComplaint: string | null;
+    historyOfPresentIllness: string | null;
+    symptoms: string[];
+  };
+  objective: {
+    findings: string[];
+  };
+  assessment: {
+    diagnoses: string[];
+    summary: string | null;
+  };
+  plan: {
+    items: string[]; // Treatment steps not covered by medications or tests
+    referrals: string[];
+    education: string[];
+  };
+  medications: Medication[];
+  tests: DiagnosticTest[];
+  followUp: string | null;
+}
+
+const PATIENT_FIELDS: { key: keyof PatientDetails; label: string; placeholder: string }[] = [
+  { key: 'mrNo', label: 'MR. NO', placeholder: '[MR. NO]' },
+  { key: 'date', label: 'Date', placeholder: '[Date]' },
+  { key: 'name', label: 'Patient Name', placeholder: '[Patient Name]' },
+  { key: 'opdNo', label: 'O.P.D. NO', placeholder: '[O.P.D. NO]' },
+  { key: 'age', label: 'Age', placeholder: '[Age]' },
+  { key: 'sex', label: 'Sex', placeholder: '[Sex]' },
+  { key: 'department', label: 'Department', placeholder: 'Physiotherapy' },
+  { key: 'occupation', label: 'Occupation', placeholder: '[Occupation]' },
+  { key: 'address', label: 'Address', placeholder: '[Address]' },
+  { key: 'referredName', label: 'Referred Name', placeholder: '[Referred Name]' },
+  { key: 'attendantName', label: 'Attendant Name', placeholder: '[Attendant Name]' },
+  { key: 'finalDiagnosis', label: 'Final Diagnosis', placeholder: '[Final Diagnosis]' },
+];
+
+const nullableString = (description: string): Schema => ({ type: Type.STRING, nullable: true, description });
+const stringList = (description: string): Schema => ({ type: Type.ARRAY, items: { type: Type.STRING }, description });
+
+const CLINICAL_NOTE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    patient: {
+      type: Type.OBJECT,
+      properties: {
+        mrNo: nullableString('Medical record number'),
+        date: nullableString('Visit date as spoken'),
+        name: nullableString('Patient full name'),
+        opdNo: nullableString('Outpatient department number'),
+        age: nullableString('Age including unit, e.g. "45 years"'),
+        sex: nullableString('Sex as stated'),
+        department: nullableString('Department; "Physiotherapy" unless another is stated'),
+        occupation: nullableString('Occupation'),
+        address: nullableString('Address'),
+        referredName: nullableString('Name of the referring person'),
+        attendantName: nullableString('Name of the attendant'),
+        finalDiagnosis: nullableString('Final diagnosis'),
+      },
+      required: PATIENT_FIELDS.map(field => field.key),
+      propertyOrdering: PATIENT_FIELDS.map(field => field.key),
+    },
+    subjective: {
+      type: Type.OBJECT,
+      properties: {
+        chiefComplaint: nullableString("Chief complaint in the patient's own words"),
+        historyOfPresentIllness: nullableString('Onset, location, duration, character, aggravating/relieving factors, timing and severity'),
+        symptoms: stringList('Patient-reported symptoms'),
+      },
+      required: ['chiefComplaint', 'historyOfPresentIllness', 'symptoms'],
+    },
+    objective: {
+      type: Type.OBJECT,
+      properties: { findings: stringList('Examination findings and vitals stated by the doctor') },
+      required: ['findings'],
+    },
+    assessment: {
+      type: Type.OBJECT,
+      properties: {
+        diagnoses: stringList('Diagnoses or differential diagnoses'),
+        summary: nullableString("The doctor's reasoning or summary of the condition"),
+      },
+      required: ['diagnoses', 'summary'],
+    },
+    plan: {
+      type: Type.OBJECT,
+      properties: {
+        items: stringList('Treatment steps other than medications and tests, e.g. exercises or therapy'),
+        referrals: stringList('Referrals to specialists'),
+        education: stringList('Patient education and counseling points'),
+      },
+      required: ['items', 'referrals', 'education'],
+    },
+    medications: {
+      type: Type.ARRAY,
+      description: 'Medications prescribed',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          dose: nullableString('Dose and strength'),
+          route: nullableString('Route, e.g. oral or topical'),
+          frequency: nullableString('Frequency, e.g. twice daily'),
+          duration: nullableString('Duration, e.g. 5 days'),
+        },
+        required: ['name', 'dose', 'route', 'frequency', 'duration'],
+      },
+    },
+    tests: {
+      type: Type.ARRAY,
+      description: 'Diagnostic tests ordered (labs, imaging)',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          reason: nullableString('Why the test was ordered'),
+        },
+        required: ['name', 'reason'],
+      },
+    },
+    followUp: nullableString('Follow-up instructions'),
+  },
+  required: ['patient', 'subjective', 'objective', 'assessment', 'plan', 'medications', 'tests', 'followUp'],
+  propertyOrdering: ['patient', 'subjective', 'objective', 'assessment', 'plan', 'medications', 'tests', 'followUp'],
+};
+
+const CLINICAL_NOTE_EXTRACTION_INSTRUCTIONS = `You are a medical scribe assisting a doctor. Extract a structured clinical note from the raw, transcribed conversation between the doctor and the patient.
+
+- Only record information that is actually stated in the conversation. Use null for any detail that is not mentioned and an empty list when there is nothing to list. Never invent values.
+- The department is "Physiotherapy" unless another department is stated.
+- Subjective: the patient's complaint and history in their own words.
+- Objective: findings stated by the doctor (e.g. "On examination...", "Vitals are...").
+- Assessment: the doctor's diagnoses or differentials and their reasoning.
+- Plan: put prescribed drugs in medications (with dose, route, frequency and duration if mentioned), ordered labs or imaging in tests, and everything else in plan items, referrals, education and follow-up.`;
+
+/** The instructions the model actually receives for a mode: structured-output modes use the extraction prompt. */
+function promptInstructions(mode: Mode): string {
+  return mode.structuredOutput === 'clinicalNote' ? CLINICAL_NOTE_EXTRACTION_INSTRUCTIONS : mode.instructions;
+}
+
+/**
+ * Coerces the model's JSON into a complete ClinicalNote. Missing or mistyped
+ * fields become null or empty lists so rendering never has to guess.
+ */
+function normalizeClinicalNote(data: unknown): ClinicalNote {
+  const obj = (value: unknown): Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  const str = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : null;
+  const strList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(str).filter((item): item is string => item !== null) : [];
+
+  const root = obj(data);
+  const patientData = obj(root.patient);
+  const patient = {} as PatientDetails;
+  PATIENT_FIELDS.forEach(({ key }) => { patient[key] = str(patientData[key]); });
+
+  const subjective = obj(root.subjective);
+  const assessment = obj(root.assessment);
+  const plan = obj(root.plan);
+
+  return {
+    patient,
+    subjective: {
+      chiefComplaint: str(subjective.chiefComplaint),
+      historyOfPresentIllness: str(subjective.historyOfPresentIllness),
+      symptoms: strList(subjective.symptoms),
+    },
+    objective: { findings: strList(obj(root.objective).findings) },
+    assessment: { diagnoses: strList(assessment.diagnoses), summary: str(assessment.summary) },
+    plan: { items: strList(plan.items), referrals: strList(plan.referrals), education: strList(plan.education) },
+    medications: (Array.isArray(root.medications) ? root.medications : [])
+      .map(item => obj(item))
+      .filter(item => str(item.name))
+      .map(item => ({
+        name: str(item.name)!,
+        dose: str(item.dose),
+        route: str(item.route),
+        frequency: str(item.frequency),
+        duration: str(item.duration),
+      })),
+    tests: (Array.isArray(root.tests) ? root.tests : [])
+      .map(item => obj(item))
+      .filter(item => str(item.name))
+      .map(item => ({ name: str(item.name)!, reason: str(item.reason) })),
+    followUp: str(root.followUp),
+  };
+}
+
+/**
+ * Reads a JSON document that is still streaming in, by closing the string, lists and objects left
+ * open. A value cut off mid-way is dropped back to the last complete one. Returns undefined while
+ * nothing can be read yet.
+ */
+function parsePartialJson(text: string): unknown {
+  const open: string[] = [];
+  const cuts: { at: number; closers: string }[] = []; // Places where the prefix ends between values
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      open.push(ch === '{' ? '}' : ']');
+      cuts.push({ at: i + 1, closers: [...open].reverse().join('') });
+    } else if (ch === '}' || ch === ']') {
+      open.pop();
+    } else if (ch === ',') {
+      cuts.push({ at: i, closers: [...open].reverse().join('') });
+    }
+  }
+  const attempts = [text + (inString && !escaped ? '"' : '') + [...open].reverse().join('')];
+  cuts.slice(-3).reverse().forEach(cut => attempts.push(text.slice(0, cut.at) + cut.closers));
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // Try a shorter prefix
+    }
+  }
+  return undefined;
+}
+
+function formatMedication(medication: Medication): string {
+  const details = [medication.dose, medication.route, medication.frequency, medication.duration].filter(Boolean);
+  return details.length > 0 ? `${medication.name} (${details.join(', ')})` : medication.name;
+}
+
+/** Renders a ClinicalNote as the markdown patient table followed by SOAP sections. */
+function renderClinicalNoteMarkdown(note: ClinicalNote, location: string, timestamp: string): string {
+  // Pipes inside values would break the table layout.
+  const cell = (value: string | null, placeholder: string) => (value ?? placeholder).replace(/\|/g, '/').replace(/\n/g, ' ');
+  const fieldCell = (index: number) => {
+    const field = PATIENT_FIELDS[index];
+    return `**${field.label}:** | ${cell(note.patient[field.key], field.placeholder)}`;
+  };
+  const list = (items: string[], empty: string) => items.length > 0 ? items.map(item => `- ${item}`).join('\n') : `- ${empty}`;
+
+  const lines: string[] = [
+    `**Location:** ${location}  `,
+    `**Timestamp:** ${timestamp}`,
+    '',
+    '| | | | |',
+    '| :--- | :--- | :--- | :--- |',
+  ];
+  for (let i = 0; i < PATIENT_FIELDS.length; i += 2) {
+    lines.push(`| ${fieldCell(i)} | ${fieldCell(i + 1)} |`);
+  }
+
+  const subjective: string[] = [];
+  if (note.subjective.chiefComplaint) subjective.push(`- **Chief complaint:** ${note.subjective.chiefComplaint}`);
+  if (note.subjective.historyOfPresentIllness) subjective.push(`- **History of present illness:** ${note.subjective.historyOfPresentIllness}`);
+  note.subjective.symptoms.forEach(symptom => subjective.push(`- ${symptom}`));
+
+  const assessment: string[] = note.assessment.diagnoses.map(diagnosis => `- ${diagnosis}`);
+  if (note.assessment.summary) assessment.push(`- ${note.assessment.summary}`);
+
+  const plan: string[] = [];
+  const addGroup = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    plan.push(`- **${title}:**`);
+    items.forEach(item => plan.push(`  - ${item}`));
+  };
+  addGroup('Medications', note.medications.map(formatMedication));
+  addGroup('Diagnostic tests', note.tests.map(test => test.reason ? `${test.name} (${test.reason})` : test.name));
+  addGroup('Treatment', note.plan.items);
+  addGroup('Referrals', note.plan.referrals);
+  addGroup('Patient education', note.plan.education);
+  if (note.followUp) plan.push(`- **Follow-up:** ${note.followUp}`);
+
+  lines.push(
+    '',
+    '---',
+    '',
+    '## S (Subjective)',
+    subjective.length > 0 ? subjective.join('\n') : '- No subjective history mentioned.',
+    '',
+    '## O (Objective)',
+    list(note.objective.findings, 'No objective findings mentioned.'),
+    '',
+    '## A (Assessment)',
+    assessment.length > 0 ? assessment.join('\n') : '- No assessment mentioned.',
+    '',
+    '## P (Plan)',
+    plan.length > 0 ? plan.join('\n') : '- No plan mentioned.',
+  );
+  return lines.join('\n');
+}
+
+// ============================================================================
+// FHIR R4 Export (doctor mode)
+// ============================================================================
+
+type FhirResource = { resourceType: string; id: string; [element: string]: unknown };
+
+interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  identifier: { system: string; value: string };
+  type: 'document';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+interface FhirExportInput {
+  noteId: string;
+  clinicalNote: ClinicalNote;
+  timestamp: number; // Start of the consultation, epoch ms
+  durationMs: number;
+  ianaTimezone: string;
+}
+
+const LOINC = 'http://loinc.org';
+const SNOMED = 'http://snomed.info/sct';
+const FHIR_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/** Formats epoch ms as a FHIR dateTime with the UTC offset that applies in the given IANA timezone. */
+function toFhirDateTime(ms: number, ianaTimezone: string): string {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: ianaTimezone, hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(ms)).forEach(part => { parts[part.type] = part.value; });
+
+  const wholeSecondMs = Math.floor(ms / 1000) * 1000;
+  const localAsUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  const offsetMinutes = Math.round((localAsUtc - wholeSecondMs) / 60000);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  const offset = offsetMinutes === 0
+    ? 'Z'
+    : `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}${offset}`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function fhirNarrative(lines: string[]): { status: 'generated'; div: string } {
+  const body = lines.length > 0
+    ? `<ul>${lines.map(line => `<li>${escapeXml(line)}</li>`).join('')}</ul>`
+    : '<p>Nothing recorded.</p>';
+  return { status: 'generated', div: `<div xmlns="http://www.w3.org/1999/xhtml">${body}</div>` };
+}
+
+function toFhirGender(sex: string | null): 'male' | 'female' | 'other' | 'unknown' {
+  if (!sex) return 'unknown';
+  const value = sex.trim().toLowerCase();
+  if (/^(m|male|man|boy)$/.test(value)) return 'male';
+  if (/^(f|female|woman|girl)$/.test(value)) return 'female';
+  return 'other';
+}
+
+/**
+ * Builds a FHIR R4 document Bundle from a structured clinical note: a Composition
+ * with SOAP sections, the Patient and Encounter it refers to, and MedicationRequest
+ * and ServiceRequest entries for the plan.
+ */
+function buildFhirBundle(input: FhirExportInput): FhirBundle {
+  const { clinicalNote: note, ianaTimezone } = input;
+  const newEntry = (resource: Omit<FhirResource, 'id'>): FhirBundleEntry => {
+    const id = crypto.randomUUID();
+    return { fullUrl: `urn:uuid:${id}`, resource: { ...resource, id } as FhirResource };
+  };
+  const noteDateTime = toFhirDateTime(input.timestamp, ianaTimezone);
+
+  const identifiers: { type: { text: string }; value: string }[] = [];
+  if (note.patient.mrNo) identifiers.push({ type: { text: 'MR. NO' }, value: note.patient.mrNo });
+  if (note.patient.opdNo) identifiers.push({ type: { text: 'O.P.D. NO' }, value: note.patient.opdNo });
+
+  const patient = newEntry({
+    resourceType: 'Patient',
+    ...(identifiers.length > 0 && { identifier: identifiers }),
+    ...(note.patient.name && { name: [{ text: note.patient.name }] }),
+    gender: toFhirGender(note.patient.sex),
+    ...(note.patient.address && { address: [{ text: note.patient.address }] }),
+    ...(note.patient.attendantName && {
+      contact: [{ relationship: [{ text: 'Attendant' }], name: { text: note.patient.attendantName } }],
+    }),
+  });
+  const subject = { reference: patient.fullUrl };
+
+  const encounter = newEntry({
+    resourceType: 'Encounter',
+    status: 'finished',
+    class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB', display: 'ambulatory' },
+    serviceType: { text: note.patient.department || 'Physiotherapy' },
+    subject,
+    period: {
+      start: noteDateTime,
+      ...(input.durationMs > 0 && { end: toFhirDateTime(input.timestamp + input.durationMs, ianaTimezone) }),
+    },
+    ...(note.subjective.chiefComplaint && { reasonCode: [{ text: note.subjective.chiefComplaint }] }),
+  });
+  const encounterRef = { reference: encounter.fullUrl };
+
+  const medicationRequests = note.medications.map(medication => newEntry({
+    resourceType: 'MedicationRequest',
+    status: 'active',
+    intent: 'order',
+    medicationCodeableConcept: { text: medication.name },
+    subject,
+    encounter: encounterRef,
+    authoredOn: noteDateTime,
+    dosageInstruction: [{ text: formatMedication(medication) }],
+  }));
+
+  const serviceRequests = [
+    ...note.tests.map(test => newEntry({
+      resourceType: 'ServiceRequest',
+      status: 'active',
+      intent: 'order',
+      category: [{ coding: [{ system: SNOMED, code: '103693007', display: 'Diagnostic procedure' }] }],
+      code: { text: test.name },
+      subject,
+      encounter: encounterRef,
+      authoredOn: noteDateTime,
+      ...(test.reason && { reasonCode: [{ text: test.reason }] }),
+    })),
+    ...note.plan.referrals.map(referral => newEntry({
+      resourceType: 'ServiceRequest',
+      status: 'active',
+      intent: 'order',
+      category: [{ coding: [{ system: SNOMED, code: '3457005', display: 'Patient referral' }] }],
+      code: { text: referral },
+      subject,
+      encounter: encounterRef,
+      authoredOn: noteDateTime,
+    })),
+  ];
+
+  const subjectiveLines = [
+    ...(note.subjective.chiefComplaint ? [`Chief complaint: ${note.subjective.chiefComplaint}`] : []),
+    ...(note.subjective.historyOfPresentIllness ? [`History of present illness: ${note.subjective.historyOfPresentIllness}`] : []),
+    ...note.subjective.symptoms,
+  ];
+  const assessmentLines = [
+    ...note.assessment.diagnoses,
+    ...(note.assessment.summary ? [note.assessment.summary] : []),
+    ...(note.patient.finalDiagnosis ? [`Final diagnosis: ${note.patient.finalDiagnosis}`] : []),
+  ];
+  const planLines = [
+    ...note.medications.map(medication => `Medication: ${formatMedication(medication)}`),
+    ...note.tests.map(test => `Test: ${test.name}${test.reason ? ` (${test.reason})` : ''}`),
+    ...note.plan.items,
+    ...note.plan.referrals.map(referral => `Referral: ${referral}`),
+    ...note.plan.education.map(item => `Education: ${item}`),
+    ...(note.followUp ? [`Follow-up: ${note.followUp}`] : []),
+  ];
+  const section = (title: string, code: string, display: string, lines: string[], entries: FhirBundleEntry[] = []) => ({
+    title,
+    code: { coding: [{ system: LOINC, code, display }] },
+    text: fhirNarrative(lines),
+    ...(entries.length > 0 && { entry: entries.map(entry => ({ reference: entry.fullUrl })) }),
+  });
+
+  const composition = newEntry({
+    resourceType: 'Composition',
+    status: 'final',
+    type: { coding: [{ system: LOINC, code: '11506-3', display: 'Progress note' }] },
+    subject,
+    encounter: encounterRef,
+    date: noteDateTime,
+    author: [{ display: 'ScribeAI (AI-generated, requires clinician review)' }],
+    title: 'Clinical note',
+    section: [
+      section('Subjective', '61150-9', 'Subjective Narrative', subjectiveLines),
+      section('Objective', '61149-1', 'Objective Narrative', note.objective.findings),
+      section('Assessment', '51848-0', 'Evaluation note', assessmentLines),
+      section('Plan', '18776-5', 'Plan of care note', planLines, [...medicationRequests, ...serviceRequests]),
+    ],
+  });
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${crypto.randomUUID()}` },
+    type: 'document',
+    timestamp: toFhirDateTime(Date.now(), ianaTimezone),
+    // A document Bundle must start with its Composition.
+    entry: [composition, patient, encounter, ...medicationRequests, ...serviceRequests],
+  };
+}
+
+/**
+ * Checks the bundle against the required elements, value sets and reference rules of
+ * the base R4 resources it uses. Returns a list of problems; empty means valid.
+ */
+function validateFhirBundle(bundle: FhirBundle): string[] {
+  const errors: string[] = [];
+  const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+  const requireFields = (resource: FhirResource, fields: string[]) => {
+    fields.forEach(field => {
+      const value = resource[field];
+      if (value === undefined || value === null || (Array.isArray(value) && value.length === 0)) {
+        errors.push(`${resource.resourceType}.${field} is required.`);
+      }
+    });
+  };
+  const requireCode = (resource: FhirResource, field: string, allowed: string[]) => {
+    const value = resource[field];
+    if (value !== undefined && !allowed.includes(value as string)) {
+      errors.push(`${resource.resourceType}.${field} "${value}" is not a valid code.`);
+    }
+  };
+  const checkDateTime = (path: string, value: unknown) => {
+    if (value !== undefined && (typeof value !== 'string' || !FHIR_DATETIME_PATTERN.test(value))) {
+      errors.push(`${path} is not a valid FHIR dateTime.`);
+    }
+  };
+  const checkReferences = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => checkReferences(item, `${path}[${i}]`));
+    } else if (typeof value === 'object' && value !== null) {
+      Object.entries(value).forEach(([key, child]) => {
+        if (key === 'reference' && typeof child === 'string' && !fullUrls.has(child)) {
+          errors.push(`${path}.reference points to a resource that is not in the bundle.`);
+        } else {
+          checkReferences(child, `${path}.${key}`);
+        }
+      });
+    }
+  };
+
+  requireFields(bundle as unknown as FhirResource, ['type', 'identifier', 'timestamp']);
+  checkDateTime('Bundle.timestamp', bundle.timestamp);
+  if (bundle.entry[0]?.resource.resourceType !== 'Composition') {
+    errors.push('A document Bundle must start with a Composition.');
+  }
+
+  bundle.entry.forEach(({ fullUrl, resource }) => {
+    if (!/^urn:uuid:[0-9a-f-]{36}$/.test(fullUrl)) errors.push(`Bundle.entry.fullUrl "${fullUrl}" is not a UUID URN.`);
+    if (!resource.id) errors.push(`${resource.resourceType}.id is missing.`);
+    checkReferences(resource, resource.resourceType);
+
+    switch (resource.resourceType) {
+      case 'Patient':
+        requireCode(resource, 'gender', ['male', 'female', 'other', 'unknown']);
+        break;
+      case 'Encounter':
+        requireFields(resource, ['status', 'class']);
+        requireCode(resource, 'status', ['planned', 'arrived', 'triaged', 'in-progress', 'onleave', 'finished', 'cancelled', 'entered-in-error', 'unknown']);
+        checkDateTime('Encounter.period.start', (resource.period as { start?: string } | undefined)?.start);
+        checkDateTime('Encounter.period.end', (resource.period as { end?: string } | undefined)?.end);
+        break;
+      case 'Composition': {
+        requireFields(resource, ['status', 'type', 'date', 'author', 'title']);
+        requireCode(resource, 'status', ['preliminary', 'final', 'amended', 'entered-in-error']);
+        checkDateTime('Composition.date', resource.date);
+        const sections = (resource.section as { text?: unknown; entry?: unknown[] }[] | undefined) || [];
+        sections.forEach((section, i) => {
+          if (!section.text && !section.entry?.length) errors.push(`Composition.section[${i}] needs text or entries.`);
+        });
+        break;
+      }
+      case 'MedicationRequest':
+        requireFields(resource, ['status', 'intent', 'medicationCodeableConcept', 'subject']);
+        requireCode(resource, 'status', ['active', 'on-hold', 'cancelled', 'completed', 'entered-in-error', 'stopped', 'draft', 'unknown']);
+        requireCode(resource, 'intent', ['proposal', 'plan', 'order', 'original-order', 'reflex-order', 'filler-order', 'instance-order', 'option']);
+        checkDateTime('MedicationRequest.authoredOn', resource.authoredOn);
+        break;
+      case 'ServiceRequest':
+        requireFields(resource, ['status', 'intent', 'subject']);
+        requireCode(resource, 'status', ['draft', 'active', 'on-hold', 'revoked', 'completed', 'entered-in-error', 'unknown']);
+        requireCode(resource, 'intent', ['proposal', 'plan', 'directive', 'order', 'original-order', 'reflex-order', 'filler-order', 'instance-order', 'option']);
+        checkDateTime('ServiceRequest.authoredOn', resource.authoredOn);
+        break;
+      default:
+        errors.push(`Unexpected resource type ${resource.resourceType}.`);
+    }
+  });
+  return errors;
+}
+
+// ============================================================================
+// Retries for transient API errors
+// ============================================================================
+
+const MAX_TRANSCRIPTION_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 2000;
+
+/** Rate limits, server errors and dropped connections are worth retrying; bad requests and bad keys are not. */
+function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|network|timed? ?out|econnreset|unavailable|resource_exhausted|overloaded|\b(429|500|502|503|504)\b/i.test(message);
+}
+
+/** Runs a task, retrying transient failures with exponential backoff and jitter. */
+async function withRetry<T>(
+  task: () => Promise<T>,
+  onRetry: (attempt: number, delayMs: number, error: unknown) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= MAX_TRANSCRIPTION_ATTEMPTS || !isTransientError(error)) throw error;
+      const delayMs = Math.round(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+      onRetry(attempt, delayMs, error);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// ============================================================================
+// Chunked Upload Transcription
+// ============================================================================
+
+// Long uploads are split into overlapping windows so each inline request stays small.
+const UPLOAD_CHUNK_MS = 5 * 60 * 1000;
+const UPLOAD_CHUNK_OVERLAP_MS = 8 * 1000;
+const UPLOAD_SAMPLE_RATE = 16000; // Plenty for speech, and keeps each WAV window under 10 MB
+const MAX_UPLOAD_DURATION_MS = 3 * 60 * 60 * 1000; // Bounds the decoded samples held in memory and the parts sent
+const OVERLAP_SEARCH_WORDS = 60;
+const MIN_OVERLAP_WORDS = 3;
+
+const TRANSCRIPT_TIMESTAMP_PATTERN = /\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]/g;
+
+interface TimeWindow {
+  startMs: number;
+  endMs: number;
+}
+
+interface DecodedUpload {
+  durationMs: number;
+  buffer: AudioBuffer;
+  windows: TimeWindow[]; // Empty when the file is short enough to send as it is
+}
+
+/**
+ * Decodes a file at the upload sample rate and, if it is longer than one window, plans the windows it is
+ * sent in. Each window is encoded only when it is transcribed. Returns null if the browser can't decode it.
+ */
+async function decodeAudioFile(file: Blob): Promise<DecodedUpload | null> {
+  let buffer: AudioBuffer;
+  try {
+    const context = new OfflineAudioContext(1, 1, UPLOAD_SAMPLE_RATE);
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    console.warn('Could not decode the audio file in the browser:', error);
+    return null;
+  }
+  const durationMs = Math.round(buffer.duration * 1000);
+  const windows = durationMs > UPLOAD_CHUNK_MS ? planUploadWindows(durationMs) : [];
+  return { durationMs, buffer, windows };
+}
+
+function planUploadWindows(durationMs: number): TimeWindow[] {
+  const windows: TimeWindow[] = [];
+  const step = UPLOAD_CHUNK_MS - UPLOAD_CHUNK_OVERLAP_MS;
+  for (let startMs = 0; ; startMs += step) {
+    const endMs = Math.min(startMs + UPLOAD_CHUNK_MS, durationMs);
+    windows.push({ startMs, endMs });
+    if (endMs >= durationMs) break;
+  }
+  return windows;
+}
+
+/** Encodes one window of the buffer as a mono 16-bit PCM WAV file. */
+function encodeWavWindow(buffer: AudioBuffer, span: TimeWindow): Blob {
+  const startSample = Math.floor((span.startMs / 1000) * buffer.sampleRate);
+  const endSample = Math.min(buffer.length, Math.ceil((span.endMs / 1000) * buffer.sampleRate));
+  const sampleCount = Math.max(0, endSample - startSample);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  const view = new DataView(new ArrayBuffer(44 + sampleCount * 2));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + sampleCount * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, sampleCount * 2, true);
+
+  for (let i = 0; i < sampleCount; i++) {
+    let sample = 0;
+    for (const channel of channels) sample += channel[startSample + i];
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+function formatTranscriptTimestamp(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `[${pad(hours)}:${pad(minutes)}:${pad(seconds)}]` : `[${pad(minutes)}:${pad(seconds)}]`;
+}
+
+/** Moves the [MM:SS] / [HH:MM:SS] timestamps of a chunk transcript onto the timeline of the whole file. */
+function shiftTranscriptTimestamps(text: string, offsetMs: number): string {
+  const offsetSeconds = Math.round(offsetMs / 1000);
+  return text.replace(TRANSCRIPT_TIMESTAMP_PATTERN, (match, first: string, second: string, third?: string) => {
+    const seconds = third !== undefined
+      ? Number(first) * 3600 + Number(second) * 60 + Number(third)
+      : Number(first) * 60 + Number(second);
+    return formatTranscriptTimestamp(seconds + offsetSeconds);
+  });
+}
+
+/** Words of a transcript with their end offsets, ignoring timestamps and punctuation. */
+function transcriptWords(text: string): { key: string; end: number }[] {
+  const words: { key: string; end: number }[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    if (/^\[\d{1,2}:\d{2}(:\d{2})?\]$/.test(match[0])) continue;
+    const key = match[0].toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+    if (key) words.push({ key, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * Joins two consecutive chunk transcripts, dropping the words both heard in the overlap.
+ * The longest common run of words between the end of one and the start of the next marks
+ * the seam; words cut off at either window edge fall outside that run and are dropped too.
+ */
+function joinOverlappingTranscripts(previous: string, next: string): string {
+  const tail = transcriptWords(previous).slice(-OVERLAP_SEARCH_WORDS);
+  const head = transcriptWords(next).slice(0, OVERLAP_SEARCH_WORDS);
+
+  let best = { length: 0, tailIndex: -1, headIndex: -1 };
+  let previousRow = new Array<number>(head.length).fill(0);
+  for (let i = 0; i < tail.length; i++) {
+    const row = new Array<number>(head.length).fill(0);
+    for (let j = 0; j < head.length; j++) {
+      if (tail[i].key !== head[j].key) continue;
+      row[j] = (j > 0 ? previousRow[j - 1] : 0) + 1;
+      if (row[j] > best.length) best = { length: row[j], tailIndex: i, headIndex: j };
+    }
+    previousRow = row;
+  }
+
+  if (best.length < MIN_OVERLAP_WORDS) {
+    return `${previous.trimEnd()}\n\n${next.trimStart()}`;
+  }
+  return previous.slice(0, tail[best.tailIndex].end) + next.slice(head[best.headIndex].end);
+}
+
+function stitchTranscripts(parts: string[]): string {
+  return parts
+    .filter(part => part.trim())
+    .reduce((merged, part) => merged ? joinOverlappingTranscripts(merged, part) : part.trim(), '');
+}
+
+// ============================================================================
+// Transcript Segments (speakers, times and markers)
+// ============================================================================
+
+type TranscriptMarkerKind = 'pause' | 'unclear' | 'background';
+
+interface TranscriptMarker {
+  kind: TranscriptMarkerKind;
+  detail?: string; // What [BACKGROUND: ...] describes, or the guess in [UNCLEAR: ...]
+  offset: number; // Where in the segment's text the marker sat
+}
+
+/** One speaker turn. `text` is the spoken words only; markers are kept apart with their positions. */
+interface TranscriptSegment {
+  lapNumber: number | null; // Null for uploads, which are not recorded in laps
+  startMs: number; // From the start of the recording, lap offset applied
+  speaker: string | null; // As the model labelled it, e.g. "Speaker 1"; Whisper labels none
+  text: string;
+  markers: TranscriptMarker[];
+}
+
+interface TranscriptLap {
+  lapNumber: number | null;
+  startMs: number;
+  endMs: number;
+  segments: TranscriptSegment[];
+}
+
+// Matches the lap headers that separate laps in a note's raw transcription.
+const LAP_HEADER_PATTERN = /^--- LAP (\d+) \((\d+):(\d{2}) - (\d+):(\d{2})\) ---$/;
+const LINE_TIMESTAMP_PATTERN = /^\s*(?:\*\*)?\[(\d{1,2}):(\d{2})(?::(\d{2}))?\](?:\*\*)?\s*/;
+// The labels a transcript puts before what each person said: "Speaker 1", or a role the model recognised.
+const SPEAKER_ROLES = String.raw`speaker\s*\d+|doctor|dr\.?|patient|nurse|attendant|physio(?:therapist)?|therapist|parent|mother|father|relative|caregiver|interpreter`;
+// A speaker label before a colon, optionally in bold and with one more word: "Speaker 1:", "**Doctor:**", "Dr. Rao:".
+// Any other text before a colon, such as Whisper's "So the plan is: rest", is part of what was said.
+const LINE_SPEAKER_PATTERN = new RegExp(`^(?:\\*\\*)?((?:${SPEAKER_ROLES})(?:\\s+[\\p{L}\\p{N}'’-]+)?)(?:\\*\\*)?:(?:\\*\\*)?\\s+`, 'iu');
+const TRANSCRIPT_MARKER_PATTERN = /\[(PAUSE|UNCLEAR|BACKGROUND)(?::\s*([^\]]*))?\]/gi;
+const SPEAKER_COLOR_COUNT = 6; // .speaker-color-0 to -5 in index.css
+// "Play this bit" on an [UNCLEAR] marker plays this much either side of where it was heard.
+const UNCLEAR_PLAYBACK_MARGIN_MS = 3000;
+
+/** "SPEAKER 1" and "speaker 1" are the same speaker. */
+function normalizeSpeakerLabel(label: string): string {
+  const numbered = label.trim().match(/^speaker\s*(\d+)$/i);
+  return numbered ? `Speaker ${numbered[1]}` : label.trim().replace(/\s+/g, ' ');
+}
+
+/** Splits a line's words from its markers, collapsing the whitespace left where a marker was. */
+function extractTranscriptMarkers(line: string): { text: string; markers: TranscriptMarker[] } {
+  const markers: TranscriptMarker[] = [];
+  let text = '';
+  const append = (piece: string) => {
+    const words = piece.replace(/\s+/g, ' ').trim();
+    if (words) text += (text ? ' ' : '') + words;
+  };
+  let last = 0;
+  for (const match of line.matchAll(TRANSCRIPT_MARKER_PATTERN)) {
+    append(line.slice(last, match.index));
+    const detail = match[2]?.trim();
+    markers.push({ kind: match[1].toLowerCase() as TranscriptMarkerKind, ...(detail ? { detail } : {}), offset: text.length });
+    last = match.index! + match[0].length;
+  }
+  append(line.slice(last));
+  return { text, markers };
+}
+
+/**
+ * Parses one lap's `[TIMESTAMP] SPEAKER: words` lines into segments. Timestamps are relative
+ * to the lap, so `lapStartMs` is added. Lines without a timestamp or speaker continue the
+ * previous segment.
+ */
+function parseLapTranscript(text: string, lapNumber: number | null, lapStartMs: number): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const rawLine of text.split('\n')) {
+    if (!rawLine.trim()) continue;
+    let line = rawLine;
+    let startMs: number | null = null;
+    const time = line.match(LINE_TIMESTAMP_PATTERN);
+    if (time) {
+      const seconds = time[3] !== undefined
+        ? Number(time[1]) * 3600 + Number(time[2]) * 60 + Number(time[3])
+        : Number(time[1]) * 60 + Number(time[2]);
+      startMs = lapStartMs + seconds * 1000;
+      line = line.slice(time[0].length);
+    }
+    let speaker: string | null = null;
+    const label = line.match(LINE_SPEAKER_PATTERN);
+    if (label) {
+      speaker = normalizeSpeakerLabel(label[1]);
+      line = line.slice(label[0].length);
+    }
+    const { text: words, markers } = extractTranscriptMarkers(line);
+    const previous = segments[segments.length - 1];
+    if (previous && startMs === null && speaker === null) {
+      const shift = previous.text && words ? previous.text.length + 1 : previous.text.length;
+      previous.text = [previous.text, words].filter(Boolean).join(' ');
+      previous.markers.push(...markers.map(marker => ({ ...marker, offset: marker.offset + shift })));
+      continue;
+    }
+    segments.push({
+      lapNumber,
+      startMs: startMs ?? previous?.startMs ?? lapStartMs,
+      speaker: speaker ?? previous?.speaker ?? null,
+      text: words,
+      markers,
+    });
+  }
+  return segments;
+}
+
+/** Parses a note's raw transcription, splitting it into laps at the lap headers if it has any. */
+function parseTranscript(rawText: string): TranscriptLap[] {
+  const laps: TranscriptLap[] = [];
+  let current: { lapNumber: number | null; startMs: number; endMs: number; lines: string[] } = {
+    lapNumber: null, startMs: 0, endMs: 0, lines: [],
+  };
+  const flush = () => {
+    const segments = parseLapTranscript(current.lines.join('\n'), current.lapNumber, current.startMs);
+    if (current.lapNumber !== null || segments.length > 0) {
+      laps.push({ lapNumber: current.lapNumber, startMs: current.startMs, endMs: current.endMs, segments });
+    }
+  };
+  for (const line of rawText.split('\n')) {
+    const header = line.trim().match(LAP_HEADER_PATTERN);
+    if (!header) {
+      current.lines.push(line);
+      continue;
+    }
+    flush();
+    current = {
+      lapNumber: Number(header[1]),
+      startMs: (Number(header[2]) * 60 + Number(header[3])) * 1000,
+      endMs: (Number(header[4]) * 60 + Number(header[5])) * 1000,
+      lines: [],
+    };
+  }
+  flush();
+  return laps;
+}
+
+/** Roughly when a marker was heard, assuming the segment's words are spread evenly until `endMs`. */
+function estimateMarkerTimeMs(segment: TranscriptSegment, endMs: number, marker: TranscriptMarker): number {
+  const share = segment.text.length > 0 ? marker.offset / segment.text.length : 0;
+  return segment.startMs + share * Math.max(0, endMs - segment.startMs);
+}
+
+/** Replaces speaker labels at the start of transcript lines, e.g. "Speaker 1" with "Doctor". */
+function renameSpeakers(rawText: string, names: Record<string, string>): string {
+  if (Object.keys(names).length === 0) return rawText;
+  return rawText.split('\n').map(line => {
+    const time = line.match(LINE_TIMESTAMP_PATTERN)?.[0] ?? '';
+    const rest = line.slice(time.length);
+    const label = rest.match(LINE_SPEAKER_PATTERN);
+    const name = label ? names[normalizeSpeakerLabel(label[1])] : undefined;
+    return name ? `${time}${name}: ${rest.slice(label![0].length)}` : line;
+  }).join('\n');
+}
+
+// ============================================================================
+// Glossary (custom vocabulary for transcription and polishing)
+// ============================================================================
+
+interface GlossaryTerm {
+  term: string; // Spelled exactly as it should appear: "Metformin", "Dr. Nguyen", "Ghatkopar"
+  soundsLike?: string; // Comma-separated phonetic hints: "met-FOR-min, met forming"
+  modeId?: ModeID; // Only used in this mode; absent for every mode
+}
+
+// A substitution made by the glossary post-pass, kept inline for review: {{term|what the model wrote}}.
+const GLOSSARY_CORRECTION_PATTERN = /\{\{([^{}|\n]+)\|([^{}\n]+)\}\}/g;
+// Spoken forms shorter than this (letters and digits only) are never corrected: too many real words sit one edit away.
+const GLOSSARY_MIN_CORRECTION_LENGTH = 5;
+// Whisper reads at most 224 tokens of prompt, so long glossaries are cut short for it.
+const WHISPER_PROMPT_MAX_CHARS = 800;
+
+/**
+ * The user's glossary. Terms may include staff names, so they are stored encrypted with the PIN key,
+ * held only while the app is unlocked, and erased by the PIN reset with the other settings.
+ */
+class Glossary {
+  private static readonly STORAGE_KEY = 'scribeai_glossary';
+  private terms: GlossaryTerm[] = [];
+
+  /** Reads the saved terms; a glossary saved before it was encrypted is sealed on the way. */
+  public async load(cipher: PinCipher): Promise<void> {
+    this.terms = [];
+    const saved = localStorage.getItem(Glossary.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const stored = JSON.parse(saved) as GlossaryTerm[] | EncryptedText;
+      const terms = Array.isArray(stored) ? stored : JSON.parse(await cipher.decryptText(stored)) as GlossaryTerm[];
+      this.terms = terms.filter(entry => entry && typeof entry.term === 'string' && entry.term.trim());
+      if (Array.isArray(stored)) await this.replace(this.terms, cipher);
+    } catch (error) {
+      console.error('Failed to read saved glossary:', error);
+    }
+  }
+
+  /** Forgets the terms when the app locks. */
+  public clear(): void {
+    this.terms = [];
+  }
+
+  public getAll(): GlossaryTerm[] {
+    return this.terms.map(term => ({ ...term }));
+  }
+
+  /** Terms for every mode plus the ones kept for `modeId`. */
+  public forMode(modeId: ModeID): GlossaryTerm[] {
+    return this.terms.filter(term => !term.modeId || term.modeId === modeId).map(term => ({ ...term }));
+  }
+
+  public async replace(terms: GlossaryTerm[], cipher: PinCipher): Promise<void> {
+    this.terms = terms.map(term => ({ ...term }));
+    const encrypted = await cipher.encryptText(JSON.stringify(this.terms));
+    localStorage.setItem(Glossary.STORAGE_KEY, JSON.stringify(encrypted));
+  }
+}
+
+/** The glossary as a prompt section, or '' when there are no terms. */
+function glossaryPromptSection(terms: GlossaryTerm[]): string {
+  if (terms.length === 0) return '';
+  const lines = terms.map(term => `- ${term.term}${term.soundsLike ? ` (may sound like: ${term.soundsLike})` : ''}`);
+  return `Glossary: the following terms may come up. Whenever one is spoken, or something that sounds like one, write it exactly as spelled here:\n${lines.join('\n')}`;
+}
+
+/** Whisper takes example text rather than instructions, so it gets the bare terms. */
+function glossaryWhisperPrompt(terms: GlossaryTerm[]): string {
+  let prompt = '';
+  for (const { term } of terms) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > WHISPER_PROMPT_MAX_CHARS) break;
+    prompt = next;
+  }
+  return prompt;
+}
+
+/** Replaces each reviewed-or-not correction with its term, for prompts, copies and exports. */
+function stripGlossaryCorrections(text: string): string {
+  return text.replace(GLOSSARY_CORRECTION_PATTERN, '$1');
+}
+
+/** Edit distance counting a swap of neighbouring letters as one edit. Gives up past `max`, returning max + 1. */
+function glossaryEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforeRow[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+}
+
+interface GlossaryForm {
+  term: string;
+  words: number;
+  compact: string; // Lower case, letters and digits only
+  isHint: boolean;
+}
+
+function compactGlossaryText(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join('');
+}
+
+/** Longer terms tolerate more slips: one edit up to 7 letters, two up to 11, then three. */
+function glossaryMaxEdits(length: number): number {
+  return length <= 7 ? 1 : length <= 11 ? 2 : 3;
+}
+
+function correctGlossaryWords(text: string, forms: GlossaryForm[], exact: Set<string>): { text: string; count: number } {
+  const tokens = [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’]*/gu)].map(match => ({
+    word: match[0], start: match.index!, end: match.index! + match[0].length,
+  }));
+  let result = '';
+  let last = 0;
+  let count = 0;
+  let i = 0;
+  while (i < tokens.length) {
+    let skip = 0;
+    let best: { form: GlossaryForm; distance: number } | null = null;
+    for (const form of forms) {
+      const window = tokens.slice(i, i + form.words);
+      if (window.length < form.words) continue;
+      // A phrase only matches words that are separated by spaces alone.
+      if (window.some((token, k) => k > 0 && /\S/.test(text.slice(window[k - 1].end, token.start)))) continue;
+      const heard = compactGlossaryText(window.map(token => token.word).join(' '));
+      if (exact.has(heard)) {
+        skip = form.words; // Already one of the terms
+        break;
+      }
+      if (heard[0] !== form.compact[0]) continue;
+      const distance = glossaryEditDistance(heard, form.compact, glossaryMaxEdits(form.compact.length));
+      if (distance > glossaryMaxEdits(form.compact.length) || (distance === 0 && !form.isHint)) continue;
+      if (!best || distance < best.distance) best = { form, distance };
+    }
+    if (skip) {
+      i += skip;
+      continue;
+    }
+    if (!best) {
+      i++;
+      continue;
+    }
+    const first = tokens[i];
+    const lastToken = tokens[i + best.form.words - 1];
+    result += `${text.slice(last, first.start)}{{${best.form.term}|${text.slice(first.start, lastToken.end)}}}`;
+    last = lastToken.end;
+    count++;
+    i += best.form.words;
+  }
+  return { text: result + text.slice(last), count };
+}
+
+/**
+ * Fuzzy-corrects near-misses of glossary terms in a transcript, e.g. "metforman" to "Metformin", marking each
+ * substitution as {{term|original}}. Timestamps, speaker labels, lap headers and markers are left alone.
+ */
+function correctGlossaryTerms(transcript: string, terms: GlossaryTerm[]): { text: string; count: number } {
+  const forms: GlossaryForm[] = terms.flatMap(term => [
+    { text: term.term, isHint: false },
+    ...(term.soundsLike ?? '').split(/[,;]/).map(hint => ({ text: hint, isHint: true })),
+  ].map(form => ({
+    term: term.term,
+    words: (form.text.match(/[\p{L}\p{N}]+/gu) ?? []).length,
+    compact: compactGlossaryText(form.text),
+    isHint: form.isHint,
+  })))
+    .filter(form => form.compact.length >= GLOSSARY_MIN_CORRECTION_LENGTH)
+    .sort((a, b) => b.words - a.words);
+  if (forms.length === 0) return { text: transcript, count: 0 };
+  const exact = new Set(terms.map(term => compactGlossaryText(term.term)));
+  const untouchable = new RegExp(`${TRANSCRIPT_MARKER_PATTERN.source}|${GLOSSARY_CORRECTION_PATTERN.source}`, 'gi');
+
+  let count = 0;
+  const lines = transcript.split('\n').map(line => {
+    if (LAP_HEADER_PATTERN.test(line.trim())) return line;
+    const time = line.match(LINE_TIMESTAMP_PATTERN)?.[0] ?? '';
+    const label = line.slice(time.length).match(LINE_SPEAKER_PATTERN)?.[0] ?? '';
+    const body = line.slice(time.length + label.length);
+    let corrected = '';
+    let last = 0;
+    const correctPiece = (piece: string) => {
+      const result = correctGlossaryWords(piece, forms, exact);
+      count += result.count;
+      corrected += result.text;
+    };
+    for (const match of body.matchAll(untouchable)) {
+      correctPiece(body.slice(last, match.index));
+      corrected += match[0];
+      last = match.index! + match[0].length;
+    }
+    correctPiece(body.slice(last));
+    return time + label + corrected;
+  });
+  return { text: lines.join('\n'), count };
+}
+
+// ============================================================================
+// Markdown Round-Trip (editing the rendered polished note)
+// ============================================================================
+
+// Edits are grouped into one undo step once typing pauses, and saved a little later.
+const EDIT_SNAPSHOT_DELAY_MS = 600;
+const EDIT_SAVE_DELAY_MS = 1500;
+const MAX_EDIT_HISTORY = 100;
+
+const MARKDOWN_BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE', 'HR', 'TABLE',
+]);
+
+/** Escapes characters that would turn typed text into markdown syntax. Intraword underscores are left alone. */
+function escapeMarkdownText(text: string): string {
+  return text
+    .replace(/([\\*`<[\]~])/g, '\\$1')
+    .replace(/(?<![\p{L}\p{N}])_|_(?![\p{L}\p{N}])/gu, '\\_');
+}
+
+/** Stops a line that starts like a heading, quote, rule or list item from becoming one. */
+function escapeMarkdownBlockStart(line: string): string {
+  return line.replace(/^(#|>|=|-(?=-)|[-+](?=\s|$)|(\d+)[.)](?=\s|$))/, (match, _all, digits?: string) =>
+    digits !== undefined ? `${digits}\\${match.slice(digits.length)}` : `\\${match}`
+  );
+}
+
+/** Emphasis markers must hug the text, so surrounding spaces move outside them. */
+function wrapMarkdownInline(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    // Single newlines are soft breaks in markdown; keeping them preserves the source's line layout.
+    return escapeMarkdownText((node.textContent ?? '').replace(/\s+/g, run => (run.includes('\n') ? '\n' : ' ')));
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const element = node as HTMLElement;
+  const inner = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  switch (element.tagName) {
+    case 'STRONG': case 'B': return wrapMarkdownInline(inner(), '**');
+    case 'EM': case 'I': return wrapMarkdownInline(inner(), '*');
+    case 'DEL': case 'S': return wrapMarkdownInline(inner(), '~~');
+    case 'CODE': return `\`${element.textContent ?? ''}\``;
+    case 'A': return `[${inner()}](${element.getAttribute('href') ?? ''})`;
+    case 'IMG': return `![${element.getAttribute('alt') ?? ''}](${element.getAttribute('src') ?? ''})`;
+    case 'BR': return '\\\n';
+    case 'INPUT': return element.getAttribute('type') === 'checkbox' ? (element.hasAttribute('checked') ? '[x] ' : '[ ] ') : '';
+    default: return inner();
+  }
+}
+
+/** Converts a run of child nodes into markdown blocks; loose inline content becomes a paragraph. */
+function blocksToMarkdown(parent: Node): string[] {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+  const flushInline = () => {
+    const text = inline
+      .map(inlineToMarkdown)
+      .join('')
+      .split('\n')
+      .map(line => escapeMarkdownBlockStart(line.trim()))
+      .filter(Boolean)
+      .join('\n');
+    if (text) blocks.push(text);
+    inline = [];
+  };
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.ELEMENT_NODE && MARKDOWN_BLOCK_TAGS.has((child as Element).tagName)) {
+      flushInline();
+      const block = blockToMarkdown(child as HTMLElement);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline.push(child);
+    }
+  }
+  flushInline();
+  return blocks;
+}
+
+function blockToMarkdown(element: HTMLElement): string {
+  const tag = element.tagName;
+  if (/^H[1-6]$/.test(tag)) {
+    const text = Array.from(element.childNodes).map(inlineToMarkdown).join('').replace(/\s+/g, ' ').trim();
+    return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+  }
+  switch (tag) {
+    case 'PRE': return `\`\`\`\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\``;
+    case 'HR': return '---';
+    case 'UL': case 'OL': return listToMarkdown(element);
+    case 'TABLE': return tableToMarkdown(element);
+    case 'BLOCKQUOTE':
+      return blocksToMarkdown(element).join('\n\n').split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    case 'LI': return blocksToMarkdown(element).join('\n');
+    default: return blocksToMarkdown(element).join('\n\n'); // P, and the DIVs the browser adds on Enter
+  }
+}
+
+function listToMarkdown(list: HTMLElement): string {
+  let number = Number(list.getAttribute('start') ?? 1) || 1;
+  return Array.from(list.children)
+    .filter(child => child.tagName === 'LI')
+    .map(item => {
+      const marker = list.tagName === 'OL' ? `${number++}. ` : '- ';
+      const indent = ' '.repeat(marker.length);
+      const body = blocksToMarkdown(item).join('\n');
+      return marker + body.split('\n').map((line, index) => (index === 0 || !line ? line : indent + line)).join('\n');
+    })
+    .join('\n');
+}
+
+function tableToMarkdown(table: HTMLElement): string {
+  const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+    Array.from(row.children).map(cell =>
+      Array.from(cell.childNodes).map(inlineToMarkdown).join('').replace(/\s*\n\s*/g, ' ').trim().replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => `| ${[...cells, ...new Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [line(rows[0]), line(new Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/** Turns the edited, rendered note back into markdown so the edits can be saved and exported. */
+function htmlToMarkdown(root: HTMLElement): string {
+  return blocksToMarkdown(root).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ============================================================================
+// Version History (append-only polished note versions and their diffs)
+// ============================================================================
+
+/** A polished note as the model wrote it or as the clinician left it. Versions are never changed once added. */
+interface PolishedVersion {
+  id: string;
+  timestamp: number;
+  author: 'ai' | 'user';
+  model?: string; // The polishing model, for AI versions
+  modeId: ModeID;
+  modeName: string;
+  renditionId?: string; // Absent on versions of notes from before renditions
+  polishedNote: string;
+  restoredFrom?: string; // Id of the version this one brought back
+  instruction?: string; // The refinement request that produced an AI version
+}
+
+type DiffOp = { kind: 'same' | 'added' | 'removed'; text: string };
+
+// Word diffs are quadratic; past this many comparisons the diff falls back to whole lines.
+const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+/** The rendition's versions, oldest first. */
+function getRenditionVersions(note: Note): PolishedVersion[] {
+  return (note.versions ?? []).filter(version => version.renditionId === note.activeRenditionId);
+}
+
+function splitForDiff(text: string, byLine: boolean): string[] {
+  return (byLine ? text.match(/[^\n]*\n|[^\n]+$/g) : text.match(/\s+|[^\s]+/g)) ?? [];
+}
+
+/** Longest-common-subsequence diff of two token lists, with the shared start and end trimmed off first. */
+function diffTokens(before: string[], after: string[]): DiffOp[] {
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+  const a = before.slice(start, endBefore);
+  const b = after.slice(start, endAfter);
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (kind: DiffOp['kind'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else ops.push({ kind, text });
+  };
+  if (start > 0) push('same', before.slice(0, start).join(''));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i++]);
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  if (endBefore < before.length) push('same', before.slice(endBefore).join(''));
+  return ops;
+}
+
+/** Word-level diff of two polished notes, or line-level when the notes are too long to compare word by word. */
+function diffPolishedNotes(before: string, after: string): DiffOp[] {
+  const words = [splitForDiff(before, false), splitForDiff(after, false)];
+  const byLine = words[0].length * words[1].length > MAX_WORD_DIFF_CELLS;
+  return byLine ? diffTokens(splitForDiff(before, true), splitForDiff(after, true)) : diffTokens(words[0], words[1]);
+}
+
+// ============================================================================
+// De-identification (PHI detection for sharing a note)
+// ============================================================================
+
+type PhiCategory = 'name' | 'identifier' | 'address' | 'date' | 'phone' | 'email';
+
+interface PhiReplacement {
+  category: PhiCategory;
+  original: string;
+  replacement: string;
+  detectedBy: string; // "Patient Name field", "Phone number rule"...
+  inNote: number; // Occurrences replaced in the polished note
+  inTranscript: number;
+}
+
+interface DeidentifiedNote {
+  polishedNote: string;
+  rawTranscription: string;
+  dateShiftDays: number;
+  replacements: PhiReplacement[];
+}
+
+interface PhiMatch {
+  start: number;
+  end: number;
+  category: PhiCategory;
+  detectedBy: string;
+  priority: number; // Lower wins where matches overlap
+}
+
+const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+  name: 'Name', identifier: 'Record number', address: 'Address', date: 'Date', phone: 'Phone number', email: 'Email',
+};
+
+// Patient table fields that identify the patient, and what they are.
+const PHI_PATIENT_FIELDS: Partial<Record<keyof PatientDetails, PhiCategory>> = {
+  mrNo: 'identifier', opdNo: 'identifier', name: 'name', attendantName: 'name', referredName: 'name',
+  address: 'address', date: 'date',
+};
+
+// Renamed speakers such as "Doctor" or "Patient" are roles, not names.
+const SPEAKER_ROLE_PATTERN = new RegExp(`^(?:${SPEAKER_ROLES})$`, 'i');
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_PATTERN = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)(\\.?)';
+const WEEKDAY_PATTERN = '(?:(Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*\\.?,?\\s+)?';
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const NUMERIC_DATE_PATTERN = /\b(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})([/.-])(\d{1,2})\5(\d{4}|\d{2}))\b/g;
+const DAY_FIRST_DATE_PATTERN = new RegExp(`\\b${WEEKDAY_PATTERN}(\\d{1,2})(st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?\\b`, 'g');
+const MONTH_FIRST_DATE_PATTERN = new RegExp(`\\b${WEEKDAY_PATTERN}${MONTH_PATTERN}\\s+(\\d{1,2})(st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'g');
+
+// Local rules for identifiers that don't come from the patient table.
+const PHI_RULES: { pattern: RegExp; category: PhiCategory; detectedBy: string; group?: number }[] = [
+  {
+    pattern: /\b(?:MR\.?\s*NO|MRN|O\.?P\.?D\.?\s*NO|UHID|IP\s*NO|Aadhaar|patient\s+ID|record\s+number|registration\s+number)\b\.?\s*[:#-]?\s*((?=[A-Z0-9/-]*\d)[A-Z0-9][A-Z0-9/-]{2,}(?:\s\d{4})*)/gi,
+    category: 'identifier', detectedBy: 'Record number rule', group: 1,
+  },
+  // 10 to 13 digits, optionally with a country code and separators: +91 98765 43210, (022) 2345-6789
+  { pattern: /(?<![\w/.:])\+?\(?\d(?:[\d ().-]{8,16})\d(?![\w/])/g, category: 'phone', detectedBy: 'Phone number rule' },
+  { pattern: /\b\d{6,}\b/g, category: 'identifier', detectedBy: 'Long number rule' },
+  {
+    pattern: /\b\d+[A-Z]?,?\s+(?:[A-Z][\w.'-]*\s+){0,4}(?:Street|St\.?|Road|Rd\.?|Lane|Ln\.?|Avenue|Ave\.?|Nagar|Colony|Marg|Chowk|Sector|Society|Apartments?|Building)(?![\w])/g,
+    category: 'address', detectedBy: 'Street address rule',
+  },
+  {
+    pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Shri|Smt)\.?\s+([A-Z][\p{L}'-]+(?:\s+[A-Z][\p{L}'-]+)?)/gu,
+    category: 'name', detectedBy: 'Title and name rule', group: 1,
+  },
+  { pattern: /\b(?:[Mm]y name is|[Nn]ame is|called)\s+([A-Z][\p{L}'-]+(?:\s+[A-Z][\p{L}'-]+)?)/gu, category: 'name', detectedBy: 'Name phrase rule', group: 1 },
+  { pattern: /(\*\*Location:\*\*\s*)([^\n]+?)(?=\s*$)/gm, category: 'address', detectedBy: 'Location header', group: 2 },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Reads the patient table of a Doctor's Note back out of its markdown, for notes without a structured note. */
+function readPatientTable(markdown: string): Partial<PatientDetails> {
+  const details: Partial<PatientDetails> = {};
+  PATIENT_FIELDS.forEach(field => {
+    const cell = markdown.match(new RegExp(`\\*\\*${escapeRegExp(field.label)}:\\*\\*\\s*\\|\\s*([^|\\n]*?)\\s*\\|`));
+    const value = cell?.[1].trim();
+    if (value && value !== field.placeholder) details[field.key] = value;
+  });
+  return details;
+}
+
+/** Hands out the same pseudonym for the same original everywhere in the note and transcript. */
+class Pseudonymizer {
+  private assigned = new Map<string, string>();
+  private aliases = new Map<string, string>();
+  private counts: Record<PhiCategory, number> = { name: 0, identifier: 0, address: 0, date: 0, phone: 0, email: 0 };
+
+  constructor(private dateShiftDays: number, private fallbackYear: number) {}
+
+  /** Gives each part of a known value its pseudonym, so "Ravi" alone reads the same as "Ravi Kumar". */
+  public registerParts(category: PhiCategory, value: string, parts: string[]): void {
+    const key = this.keyFor(category, value);
+    parts.forEach(part => {
+      const partKey = this.keyFor(category, part);
+      if (!this.aliases.has(partKey)) this.aliases.set(partKey, key);
+    });
+  }
+
+  public replacementFor(category: PhiCategory, original: string): string {
+    if (category === 'date') return shiftDateText(original, this.dateShiftDays, this.fallbackYear) ?? '[Date]';
+    const key = this.aliases.get(this.keyFor(category, original)) ?? this.keyFor(category, original);
+    let pseudonym = this.assigned.get(key);
+    if (!pseudonym) {
+      const n = ++this.counts[category];
+      pseudonym = category === 'name' ? `Person ${n <= 26 ? String.fromCharCode(64 + n) : n}`
+        : category === 'identifier' ? `ID-${String(n).padStart(4, '0')}`
+        : `[${PHI_CATEGORY_LABELS[category]} ${n}]`;
+      this.assigned.set(key, pseudonym);
+    }
+    return pseudonym;
+  }
+
+  private keyFor(category: PhiCategory, original: string): string {
+    return `${category}:${original.toLowerCase().replace(/\s+/g, ' ')}`;
+  }
+}
+
+/** The pieces of a known value that are worth searching for on their own: words of a name, lines of an address. */
+function phiValueParts(category: PhiCategory, value: string): string[] {
+  if (category === 'name') return value.split(/\s+/).filter(part => /^\p{Lu}[\p{L}'-]{2,}$/u.test(part));
+  if (category === 'address') {
+    const parts = value.split(/\s*,\s*/).filter(part => part.length >= 4);
+    return parts.length > 1 ? parts : [];
+  }
+  return [];
+}
+
+/** Builds a UTC date, rejecting impossible ones such as 31 February. */
+function makeDate(year: number, monthIndex: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, monthIndex, day));
+  return date.getUTCMonth() === monthIndex && date.getUTCDate() === day ? date : null;
+}
+
+function ordinalSuffix(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][day % 10] ?? 'th';
+}
+
+/**
+ * Moves a date by `days`, writing it back in the format it was found in. Returns null when the text
+ * is not a real date. Numeric dates are read day-first unless only month-first makes sense.
+ */
+function shiftDateText(text: string, days: number, fallbackYear: number): string | null {
+  const shift = (date: Date) => new Date(date.getTime() + days * 86400000);
+  const pad = (value: number, like: string) => String(value).padStart(like.length, '0');
+
+  const numeric = new RegExp(`^${NUMERIC_DATE_PATTERN.source}$`).exec(text);
+  if (numeric) {
+    if (numeric[1]) {
+      const date = makeDate(Number(numeric[1]), Number(numeric[2]) - 1, Number(numeric[3]));
+      if (!date) return null;
+      const moved = shift(date);
+      return `${moved.getUTCFullYear()}-${pad(moved.getUTCMonth() + 1, numeric[2])}-${pad(moved.getUTCDate(), numeric[3])}`;
+    }
+    const [first, separator, second, yearText] = [numeric[4], numeric[5], numeric[6], numeric[7]];
+    const monthFirst = Number(first) <= 12 && Number(second) > 12;
+    const [dayText, monthText] = monthFirst ? [second, first] : [first, second];
+    const year = yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText);
+    const date = makeDate(year, Number(monthText) - 1, Number(dayText));
+    if (!date) return null;
+    const moved = shift(date);
+    const movedYear = yearText.length === 2 ? pad(moved.getUTCFullYear() % 100, yearText) : String(moved.getUTCFullYear());
+    const movedDay = pad(moved.getUTCDate(), dayText);
+    const movedMonth = pad(moved.getUTCMonth() + 1, monthText);
+    return monthFirst
+      ? `${movedMonth}${separator}${movedDay}${separator}${movedYear}`
+      : `${movedDay}${separator}${movedMonth}${separator}${movedYear}`;
+  }
+
+  const dayFirst = new RegExp(`^${DAY_FIRST_DATE_PATTERN.source}$`).exec(text);
+  const monthFirst = dayFirst ? null : new RegExp(`^${MONTH_FIRST_DATE_PATTERN.source}$`).exec(text);
+  const parts = dayFirst
+    ? { weekday: dayFirst[1], day: dayFirst[2], suffix: dayFirst[3], month: dayFirst[4], dot: dayFirst[5], year: dayFirst[6] }
+    : monthFirst
+      ? { weekday: monthFirst[1], month: monthFirst[2], dot: monthFirst[3], day: monthFirst[4], suffix: monthFirst[5], year: monthFirst[6] }
+      : null;
+  if (!parts) return null;
+  const monthIndex = MONTH_NAMES.findIndex(name => name.startsWith(parts.month.slice(0, 3)));
+  const date = makeDate(parts.year ? Number(parts.year) : fallbackYear, monthIndex, Number(parts.day));
+  if (!date) return null;
+  const moved = shift(date);
+  const movedDay = moved.getUTCDate();
+  const monthName = MONTH_NAMES[moved.getUTCMonth()];
+  const month = MONTH_NAMES.includes(parts.month) ? monthName : `${monthName.slice(0, 3)}${parts.dot}`;
+  const day = `${movedDay}${parts.suffix ? ordinalSuffix(movedDay) : ''}`;
+  const year = parts.year ? String(moved.getUTCFullYear()) : '';
+  const weekdayMatch = text.match(/^[A-Za-z]+\.?,?\s+/);
+  const weekday = parts.weekday && weekdayMatch
+    ? `${weekdayMatch[0].replace(/^[A-Za-z]+/, name => {
+        const movedName = WEEKDAY_NAMES[moved.getUTCDay()];
+        return name.length > 3 ? movedName : movedName.slice(0, 3);
+      })}`
+    : '';
+  return dayFirst
+    ? `${weekday}${day} ${month}${year ? ` ${year}` : ''}`
+    : `${weekday}${month} ${day}${year ? `, ${year}` : ''}`;
+}
+
+/** Finds every piece of PHI in `text`, keeping the strongest match where two overlap. */
+function findPhi(text: string, literals: { value: string; category: PhiCategory; detectedBy: string }[]): PhiMatch[] {
+  const matches: PhiMatch[] = [];
+  // An email address is replaced whole, even when it contains the patient's name.
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    matches.push({ start: match.index!, end: match.index! + match[0].length, category: 'email', detectedBy: 'Email rule', priority: 0 });
+  }
+  // Known values from the patient table win over the generic rules.
+  [...literals].sort((a, b) => b.value.length - a.value.length).forEach(literal => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(literal.value).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`, 'giu');
+    for (const match of text.matchAll(pattern)) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, category: literal.category, detectedBy: literal.detectedBy, priority: 1 });
+    }
+  });
+  [NUMERIC_DATE_PATTERN, DAY_FIRST_DATE_PATTERN, MONTH_FIRST_DATE_PATTERN].forEach(pattern => {
+    for (const match of text.matchAll(pattern)) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length, category: 'date', detectedBy: 'Date rule', priority: 2 });
+    }
+  });
+  PHI_RULES.forEach(rule => {
+    for (const match of text.matchAll(rule.pattern)) {
+      if (rule.category === 'phone' && (match[0].replace(/\D/g, '').length < 10 || match[0].replace(/\D/g, '').length > 13)) continue;
+      const value = rule.group ? match[rule.group] : match[0];
+      // Captured values always end their match, so they start at their last occurrence in it.
+      const start = match.index! + match[0].lastIndexOf(value);
+      matches.push({ start, end: start + value.length, category: rule.category, detectedBy: rule.detectedBy, priority: 3 });
+    }
+  });
+
+  matches.sort((a, b) => a.priority - b.priority || (b.end - b.start) - (a.end - a.start) || a.start - b.start);
+  const kept: PhiMatch[] = [];
+  for (const match of matches) {
+    if (!kept.some(other => match.start < other.end && other.start < match.end)) kept.push(match);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces names, record numbers, addresses, dates, phone numbers and emails in a note and its
+ * transcript. Values from the patient details are used as well as the rules, dates are shifted by
+ * `dateShiftDays`, and each original gets one pseudonym across both texts.
+ */
+function deidentifyNote(
+  polishedNote: string,
+  rawTranscription: string,
+  patients: Partial<PatientDetails>[],
+  extraNames: string[],
+  dateShiftDays: number,
+  fallbackYear: number,
+): DeidentifiedNote {
+  const pseudonyms = new Pseudonymizer(dateShiftDays, fallbackYear);
+  const literals: { value: string; category: PhiCategory; detectedBy: string }[] = [];
+  patients.forEach(patient => (Object.keys(PHI_PATIENT_FIELDS) as (keyof PatientDetails)[]).forEach(key => {
+    const value = patient[key]?.trim();
+    const category = PHI_PATIENT_FIELDS[key]!;
+    if (!value || value === PATIENT_FIELDS.find(field => field.key === key)!.placeholder) return;
+    const detectedBy = `${PATIENT_FIELDS.find(field => field.key === key)!.label} field`;
+    literals.push({ value, category, detectedBy });
+    const parts = phiValueParts(category, value);
+    pseudonyms.registerParts(category, value, parts);
+    parts.forEach(part => literals.push({ value: part, category, detectedBy }));
+  }));
+  extraNames.forEach(name => {
+    pseudonyms.registerParts('name', name, phiValueParts('name', name));
+    literals.push({ value: name, category: 'name', detectedBy: 'Speaker name' });
+  });
+
+  const report = new Map<string, PhiReplacement>();
+  const apply = (text: string, where: 'inNote' | 'inTranscript') => {
+    let result = '';
+    let last = 0;
+    for (const match of findPhi(text, literals)) {
+      const original = text.slice(match.start, match.end);
+      const replacement = pseudonyms.replacementFor(match.category, original);
+      const key = `${match.category}:${original.toLowerCase()}`;
+      const entry = report.get(key) ?? { category: match.category, original, replacement, detectedBy: match.detectedBy, inNote: 0, inTranscript: 0 };
+      entry[where]++;
+      report.set(key, entry);
+      result += text.slice(last, match.start) + replacement;
+      last = match.end;
+    }
+    return result + text.slice(last);
+  };
+  return {
+    polishedNote: apply(polishedNote, 'inNote'),
+    rawTranscription: apply(rawTranscription, 'inTranscript'),
+    dateShiftDays,
+    replacements: [...report.values()],
+  };
+}
+
+/** The redaction report as markdown. It maps pseudonyms back to the patient, so it is never shared with the note. */
+function renderRedactionReport(result: DeidentifiedNote, createdAt: string): string {
+  const cell = (text: string) => text.replace(/\|/g, '/').replace(/\n/g, ' ');
+  const rows = result.replacements.map(entry =>
+    `| ${PHI_CATEGORY_LABELS[entry.category]} | ${cell(entry.original)} | ${cell(entry.replacement)} | ${entry.detectedBy} | ${entry.inNote} | ${entry.inTranscript} |`
+  );
+  return [
+    '# Redaction Report',
+    '',
+    `Created ${createdAt}. **Keep this report private:** it links the pseudonyms back to the patient.`,
+    '',
+    `- Items replaced: ${result.replacements.length}`,
+    `- Dates shifted by ${result.dateShiftDays > 0 ? '+' : ''}${result.dateShiftDays} days`,
+    '',
+    '| Type | Original | Replaced with | Detected by | In note | In transcript |',
+    '| :--- | :--- | :--- | :--- | ---: | ---: |',
+    ...(rows.length > 0 ? rows : ['| - | - | - | - | 0 | 0 |']),
+    '',
+    'Automatic de-identification can miss identifiers. Read the de-identified note before sharing it.',
+  ].join('\n');
+}
+
+// ============================================================================
+// AI Providers (transcription and polishing backends)
+// ============================================================================
+
+type AiProviderID = 'gemini' | 'openai-compatible';
+
+const AI_PROVIDER_NAMES: Record<AiProviderID, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'Self-hosted (OpenAI-compatible)',
+};
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_WHISPER_MODEL = 'whisper-1';
+
+const TRANSCRIPTION_PROMPT = 'Transcribe this audio with the following format:\n\n[TIMESTAMP] SPEAKER: exact spoken words\n\nInclude timestamps every 10-15 seconds, detect different speakers (Speaker 1, Speaker 2, etc.), mark pauses with [PAUSE], unclear words with [UNCLEAR], and background sounds with [BACKGROUND: description]. Capture everything exactly as spoken including filler words, repetitions, and false starts.';
+
+type AiStep = 'transcription' | 'polishing';
+
+const AI_STEPS: AiStep[] = ['transcription', 'polishing'];
+
+/** Which backend runs a step. The key of a self-hosted server is stored separately, encrypted. */
+interface AiServiceSettings {
+  provider: AiProviderID;
+  geminiModel: string; // One of the pricing table's models
+  baseUrl: string;
+  model: string; // The self-hosted server's model
+}
+
+/** Token counts in the shape Gemini reports them; providers that don't count tokens leave it out. */
+interface TokenUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number; // Billed as output
+  promptTokensDetails?: { modality?: string; tokenCount?: number }[]; // Splits the prompt into audio, text...
+}
+
+/** USD per million tokens, as Google publishes them. Audio input is billed at its own rate. */
+interface ModelPricing {
+  model: string;
+  audioInputPerMillion: number;
+  textInputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const DEFAULT_MODEL_PRICING: ModelPricing[] = [
+  { model: 'gemini-2.5-flash', audioInputPerMillion: 1.00, textInputPerMillion: 0.30, outputPerMillion: 2.50 },
+  { model: 'gemini-2.5-flash-lite', audioInputPerMillion: 0.30, textInputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: 'gemini-2.5-pro', audioInputPerMillion: 1.25, textInputPerMillion: 1.25, outputPerMillion: 10.00 },
+];
+
+/** What one request, or a whole note, cost in USD, split by what was billed. */
+interface CostBreakdown {
+  audioInput: number;
+  textInput: number;
+  output: number;
+}
+
+/** Prices a request by modality. Images, video and documents are billed like text. */
+function priceUsage(usage: TokenUsage, pricing: ModelPricing | undefined): CostBreakdown {
+  if (!pricing) return { audioInput: 0, textInput: 0, output: 0 };
+  const audioTokens = (usage.promptTokensDetails ?? [])
+    .filter(detail => detail.modality === 'AUDIO')
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  const textTokens = Math.max(0, (usage.promptTokenCount ?? 0) - audioTokens);
+  const outputTokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  return {
+    audioInput: (audioTokens / 1e6) * pricing.audioInputPerMillion,
+    textInput: (textTokens / 1e6) * pricing.textInputPerMillion,
+    output: (outputTokens / 1e6) * pricing.outputPerMillion,
+  };
+}
+
+/** The editable pricing table. Models missing from it, and all self-hosted models, are priced at zero. */
+class PricingTable {
+  private static readonly STORAGE_KEY = 'scribeai_model_pricing';
+  private entries: ModelPricing[] = DEFAULT_MODEL_PRICING.map(entry => ({ ...entry }));
+
+  public load(): void {
+    const saved = localStorage.getItem(PricingTable.STORAGE_KEY);
+    if (!saved) return;
+    try {
+      const isRate = (value: unknown) => typeof value === 'number' && value >= 0;
+      this.entries = (JSON.parse(saved) as ModelPricing[]).filter(entry =>
+        entry && typeof entry.model === 'string' && entry.model.trim() &&
+        isRate(entry.audioInputPerMillion) && isRate(entry.textInputPerMillion) && isRate(entry.outputPerMillion)
+      );
+    } catch (error) {
+      console.error('Failed to parse saved model pricing:', error);
+    }
+  }
+
+  public getAll(): ModelPricing[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  public find(model: string): ModelPricing | undefined {
+    return this.entries.find(entry => entry.model === model);
+  }
+
+  public replace(entries: ModelPricing[]): void {
+    this.entries = entries.map(entry => ({ ...entry }));
+    localStorage.setItem(PricingTable.STORAGE_KEY, JSON.stringify(this.entries));
+  }
+}
+
+interface TranscriptionResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/** `model` names the model for the note's metadata; self-hosted models are never billed. */
+interface TranscriptionProvider {
+  readonly model: string;
+  readonly selfHosted: boolean;
+  /** `glossary` lists terms the audio may contain, to be spelled as given. */
+  transcribe(audio: Blob, mimeType: string, glossary: GlossaryTerm[]): Promise<TranscriptionResult>;
+}
+
+interface PolishChunk {
+  text?: string;
+  usage?: TokenUsage; // Running totals; the last chunk that has them is final
+}
+
+/** One message of a multi-turn request; `model` turns are the model's own earlier replies. */
+interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+interface PolishingProvider {
+  readonly model: string;
+  readonly selfHosted: boolean;
+  /** Takes a single prompt, or a conversation whose last turn is the user's request. */
+  streamText(prompt: string | ChatTurn[]): AsyncGenerator<PolishChunk>;
+  /** Streams a JSON document matching `schema`; the chunks only parse once joined. */
+  streamJson(prompt: string, schema: Schema): AsyncGenerator<PolishChunk>;
+}
+
+/** A non-2xx response from a self-hosted server. `status` lets withRetry tell transient failures apart. */
+class HttpStatusError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const reader = new FileReader();
+  const readResult = new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => {
+      try {
+        resolve((reader.result as string).split(',')[1]);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+  });
+  reader.readAsDataURL(blob);
+  return readResult;
+}
+
+class GeminiTranscriptionProvider implements TranscriptionProvider {
+  public readonly selfHosted = false;
+
+  constructor(private genAI: GoogleGenAI, public readonly model: string) {}
+
+  public async transcribe(audio: Blob, mimeType: string, glossary: GlossaryTerm[]): Promise<TranscriptionResult> {
+    const base64Audio = await blobToBase64(audio);
+    if (!base64Audio) throw new Error('Failed to convert audio');
+    const glossarySection = glossaryPromptSection(glossary);
+    const response = await this.genAI.models.generateContent({
+      model: this.model,
+      contents: {
+        parts: [
+          { text: glossarySection ? `${TRANSCRIPTION_PROMPT}\n\n${glossarySection}` : TRANSCRIPTION_PROMPT },
+          { inlineData: { mimeType, data: base64Audio } },
+        ],
+      },
+    });
+    return { text: response.text ?? '', usage: response.usageMetadata };
+  }
+}
+
+/**
+ * Talks to any server implementing OpenAI's `POST /v1/audio/transcriptions`, such as a
+ * local Whisper server. Whisper doesn't label speakers, so lines carry timestamps only.
+ */
+class OpenAICompatibleTranscriptionProvider implements TranscriptionProvider {
+  public readonly selfHosted = true;
+
+  constructor(private baseUrl: string, private apiKey: string, public readonly model: string) {}
+
+  public async transcribe(audio: Blob, mimeType: string, glossary: GlossaryTerm[]): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append('file', audio, `audio.${audioFileExtension(mimeType)}`);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json'); // Adds per-segment timestamps
+    const prompt = glossaryWhisperPrompt(glossary);
+    if (prompt) form.append('prompt', prompt);
+
+    const response = await fetch(openAIEndpoint(this.baseUrl, 'audio/transcriptions'), {
+      method: 'POST',
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      body: form,
+    });
+    if (!response.ok) throw await httpStatusError(response);
+
+    const body = await response.json() as { text?: string; segments?: { start: number; text: string }[] };
+    if (!body.segments || body.segments.length === 0) {
+      return { text: (body.text ?? '').trim() };
+    }
+    const lines = body.segments
+      .filter(segment => segment.text.trim())
+      .map(segment => `${formatTranscriptTimestamp(Math.floor(segment.start))} ${segment.text.trim()}`);
+    return { text: lines.join('\n') };
+  }
+}
+
+class GeminiPolishingProvider implements PolishingProvider {
+  public readonly selfHosted = false;
+
+  constructor(private genAI: GoogleGenAI, public readonly model: string) {}
+
+  public async *streamText(prompt: string | ChatTurn[]): AsyncGenerator<PolishChunk> {
+    const contents = typeof prompt === 'string'
+      ? prompt
+      : prompt.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    const stream = await this.genAI.models.generateContentStream({ model: this.model, contents });
+    for await (const chunk of stream) {
+      yield { text: chunk.text, usage: chunk.usageMetadata };
+    }
+  }
+
+  public async *streamJson(prompt: string, schema: Schema): AsyncGenerator<PolishChunk> {
+    const stream = await this.genAI.models.generateContentStream({
+      model: this.model,
+      contents: prompt,
+      config: { responseMimeType: 'application/json', responseSchema: schema },
+    });
+    for await (const chunk of stream) {
+      yield { text: chunk.text, usage: chunk.usageMetadata };
+    }
+  }
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/** Talks to any server implementing OpenAI's `POST /v1/chat/completions`, such as a model server on the clinic LAN. */
+class OpenAICompatiblePolishingProvider implements PolishingProvider {
+  public readonly selfHosted = true;
+
+  constructor(private baseUrl: string, private apiKey: string, public readonly model: string) {}
+
+  private async post(body: object): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+    const response = await fetch(openAIEndpoint(this.baseUrl, 'chat/completions'), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, ...body }),
+    });
+    if (!response.ok) throw await httpStatusError(response);
+    return response;
+  }
+
+  private static toTokenUsage(usage: ChatCompletionUsage | undefined): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return { promptTokenCount: usage.prompt_tokens, candidatesTokenCount: usage.completion_tokens };
+  }
+
+  public async *streamText(prompt: string | ChatTurn[]): AsyncGenerator<PolishChunk> {
+    const messages = typeof prompt === 'string'
+      ? [{ role: 'user', content: prompt }]
+      : prompt.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+    yield* this.streamCompletion({ messages });
+  }
+
+  public async *streamJson(prompt: string, schema: Schema): AsyncGenerator<PolishChunk> {
+    yield* this.streamCompletion({
+      messages: [{ role: 'user', content: prompt }],
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(schema) } },
+    });
+  }
+
+  /** Reads the server-sent events of a streamed completion. */
+  private async *streamCompletion(body: object): AsyncGenerator<PolishChunk> {
+    const response = await this.post({
+      ...body,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    if (!response.body) throw new Error('The server did not stream a response.');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') return;
+        const chunk = JSON.parse(payload) as {
+          choices?: { delta?: { content?: string | null } }[];
+          usage?: ChatCompletionUsage | null;
+        };
+        yield {
+          text: chunk.choices?.[0]?.delta?.content ?? undefined,
+          usage: OpenAICompatiblePolishingProvider.toTokenUsage(chunk.usage ?? undefined),
+        };
+      }
+    }
+  }
+}
+
+/** Converts a Gemini response schema into the JSON Schema that OpenAI-compatible servers expect. */
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    json.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+    );
+    json.required = schema.required ?? [];
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+/** Accepts a base URL with or without the trailing `/v1`. */
+function openAIEndpoint(baseUrl: string, path: string): string {
+  const root = baseUrl.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+  return `${root}/v1/${path}`;
+}
+
+/** Smaller local models sometimes wrap JSON in a markdown code fence anyway; works on a partial reply too. */
+function stripJsonFence(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*`+$/, '');
+}
+
+async function httpStatusError(response: Response): Promise<HttpStatusError> {
+  let detail = response.statusText;
+  try {
+    const text = await response.text();
+    try {
+      const body = JSON.parse(text);
+      detail = String(body?.error?.message || body?.detail || body?.message || text);
+    } catch {
+      detail = text || detail;
+    }
+  } catch {
+    // Keep the status text
+  }
+  return new HttpStatusError(response.status, `Server responded ${response.status}: ${detail}`);
+}
+
+/** Whisper servers pick a decoder from the file name, so it needs a sensible extension. */
+function audioFileExtension(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim();
+  const extensions: { [key: string]: string } = {
+    'audio/mp4': 'm4a',
+    'video/mp4': 'mp4',
+    'audio/webm': 'webm',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/mpeg': 'mp3',
+    'audio/ogg': 'ogg',
+    'audio/flac': 'flac',
+    'audio/aac': 'aac',
+  };
+  return extensions[type] || 'webm';
+}
+
+// ============================================================================
+// Usage Ledger (spend across all notes)
+// ============================================================================
+
+/** One transcription or polishing request. Mode and model names are copied in so the ledger outlives them. */
+interface UsageEntry {
+  id: string;
+  timestamp: number;
+  noteId: string;
+  step: AiStep;
+  model: string;
+  modeId: ModeID;
+  modeName: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD
+}
+
+/** A monthly spend cap in USD; a limit of 0 means no budget. */
+interface UsageBudget {
+  limit: number;
+  blockRecordings: boolean;
+}
+
+type UsageGrouping = 'day' | 'week' | 'month' | 'mode';
+
+interface UsageTotal {
+  key: string;
+  label: string;
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+/** Local midnight starting the day, Monday-based week or month that contains `timestamp`. */
+function usagePeriodStart(timestamp: number, period: Exclude<UsageGrouping, 'mode'>): Date {
+  const start = new Date(timestamp);
+  start.setHours(0, 0, 0, 0);
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === 'month') start.setDate(1);
+  return start;
+}
+
+function usagePeriodLabel(start: Date, period: Exclude<UsageGrouping, 'mode'>): string {
+  if (period === 'month') return start.toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+  const date = start.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  return period === 'week' ? `Week of ${date}` : date;
+}
+
+/** Totals per period, newest first, or per mode, most expensive first. Entries must be in time order. */
+function summarizeUsage(entries: UsageEntry[], grouping: UsageGrouping): UsageTotal[] {
+  const totals = new Map<string, UsageTotal>();
+  for (const entry of entries) {
+    let key: string;
+    let label: string;
+    if (grouping === 'mode') {
+      key = entry.modeId;
+      label = entry.modeName; // The latest entry wins, so a renamed mode shows its current name
+    } else {
+      const start = usagePeriodStart(entry.timestamp, grouping);
+      key = String(start.getTime());
+      label = usagePeriodLabel(start, grouping);
+    }
+    const total = totals.get(key) ?? { key, label, calls: 0, tokens: 0, cost: 0 };
+    total.label = label;
+    total.calls++;
+    total.tokens += entry.promptTokens + entry.completionTokens;
+    total.cost += entry.cost;
+    totals.set(key, total);
+  }
+  const rows = [...totals.values()];
+  return grouping === 'mode'
+    ? rows.sort((a, b) => b.cost - a.cost)
+    : rows.sort((a, b) => Number(b.key) - Number(a.key));
+}
+
+function sumUsageCostSince(entries: UsageEntry[], since: number): number {
+  return entries.filter(entry => entry.timestamp >= since).reduce((sum, entry) => sum + entry.cost, 0);
+}
+
+/** Cents once there are dollars to count; sub-dollar sums keep enough digits to show per-request costs. */
+function formatUsageCost(cost: number): string {
+  return `$${cost.toFixed(cost >= 1 ? 2 : 4)}`;
+}
+
+// ============================================================================
+// Encryption at rest (PIN-derived key)
+// ============================================================================
+
+// PBKDF2-SHA256 work factor. A 4-digit PIN has a tiny keyspace, so the cost per
+// guess is what slows down an offline attack on a copied profile.
+const PIN_KDF_ITERATIONS = 600000;
+const PIN_CHECK_PLAINTEXT = 'scribeai-pin-check';
+
+interface EncryptedBytes {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface EncryptedText {
+  iv: string; // base64
+  data: string; // base64
+}
+
+const PIN_CHANGE_KEY = 'scribeai_pin_change';
+
+/**
+ * A PIN change that has started but not finished. Each PIN is kept encrypted under the other PIN's key,
+ * so whichever one is entered after an interruption can open every record and finish or undo the change.
+ */
+interface PendingPinChange {
+  salt: string; // base64, for the new PIN
+  check: EncryptedText; // PIN_CHECK_PLAINTEXT under the new PIN
+  newPin: EncryptedText; // Under the old PIN
+  oldPin: EncryptedText; // Under the new PIN
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * AES-GCM cipher whose key is derived from the user's PIN and a per-install random salt.
+ * The key is non-extractable and only ever held in memory while the app is unlocked.
+ */
+class PinCipher {
+  private constructor(private key: CryptoKey) {}
+
+  public static generateSalt(): Uint8Array {
+    return crypto.getRandomValues(new Uint8Array(16));
+  }
+
+  public static async fromPin(pin: string, salt: Uint8Array): Promise<PinCipher> {
+    const baseKey = await crypto.subtle.importKey(
+      'raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations: PIN_KDF_ITERATIONS, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return new PinCipher(key);
+  }
+
+  public async encryptBytes(data: BufferSource): Promise<EncryptedBytes> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, data);
+    return { iv, data: encrypted };
+  }
+
+  /** Rejects if the payload was encrypted with a different key or has been tampered with. */
+  public async decryptBytes(payload: EncryptedBytes): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, this.key, payload.data);
+  }
+
+  public async encryptText(text: string): Promise<EncryptedText> {
+    const { iv, data } = await this.encryptBytes(new TextEncoder().encode(text));
+    return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+  }
+
+  public async decryptText(payload: EncryptedText): Promise<string> {
+    const plain = await this.decryptBytes({ iv: base64ToBytes(payload.iv), data: base64ToBytes(payload.data).buffer as ArrayBuffer });
+    return new TextDecoder().decode(plain);
+  }
+}
+
+/** Settings in localStorage that are encrypted with the PIN key and must follow it when the PIN changes. */
+const PIN_SEALED_SETTINGS = ['scribeai_api_key', ...AI_STEPS.map(step => `scribeai_${step}_key`), 'scribeai_glossary'];
+
+/**
+ * Moves a payload from `previous` to `target`. A payload that only opens with `target` was already moved
+ * by an interrupted PIN change and is returned as it is.
+ */
+async function reencryptBytes(payload: EncryptedBytes, target: PinCipher, previous: PinCipher): Promise<EncryptedBytes> {
+  let plain: ArrayBuffer;
+  try {
+    plain = await previous.decryptBytes(payload);
+  } catch {
+    await target.decryptBytes(payload); // Rejects if neither key opens it
+    return payload;
+  }
+  return target.encryptBytes(plain);
+}
+
+// ============================================================================
+// Note Library (IndexedDB persistence)
+// ============================================================================
+
+/** A recording's separately encoded pieces (one per lap) laid end to end in one blob. */
+interface AudioPart {
+  startMs: number; // Where the piece starts in the recording
+  bytes: number;
+}
+
+interface StoredAudio {
+  noteId: string;
+  blob: Blob;
+  mimeType: string;
+  parts?: AudioPart[]; // Absent for uploads and for audio saved before laps were kept apart
+}
+
+interface SealedNote extends EncryptedBytes {
+  id: string;
+}
+
+interface SealedAudio extends EncryptedBytes {
+  noteId: string;
+  mimeType: string;
+  parts?: AudioPart[];
+}
+
+/** A recording in progress, kept until its note is finished so a crash or reload can't lose it. */
+interface RecordingSession {
+  noteId: string;
+  timestamp: number;
+  mimeType: string;
+  transcripts: { lapNumber: number; text: string }[]; // Laps already transcribed
+}
+
+interface RecordingChunk {
+  noteId: string;
+  lapNumber: number;
+  seq: number;
+  lapStartMs: number;
+  endMs: number; // Session time when the recorder cut this chunk
+  mimeType: string;
+  blob: Blob;
+}
+
+interface SealedRecordingSession extends EncryptedBytes {
+  noteId: string;
+}
+
+interface SealedUsageEntry extends EncryptedBytes {
+  id: string;
+}
+
+interface SealedRecordingChunk extends EncryptedBytes {
+  noteId: string;
+  lapNumber: number;
+  seq: number;
+  lapStartMs: number;
+  endMs: number;
+  mimeType: string;
+}
+
+/** Any record in the database: sealed ones, plus notes and audio saved before encryption was added. */
+type StoredRecord = SealedNote | SealedAudio | SealedRecordingSession | SealedRecordingChunk | SealedUsageEntry | Note | StoredAudio;
+
+/**
+ * Persists notes and their session audio in IndexedDB so they survive page reloads.
+ * Audio lives in its own store so listing the library never loads the blobs.
+ * Recordings in progress are journalled chunk by chunk in two more stores until finished.
+ * The usage ledger keeps one record per AI request.
+ * Everything except the record keys is encrypted with the PIN cipher.
+ */
+class NoteStore {
+  private static readonly DB_NAME = 'scribeai';
+  private static readonly DB_VERSION = 3;
+  private static readonly NOTES = 'notes';
+  private static readonly AUDIO = 'audio';
+  private static readonly RECORDINGS = 'recordings';
+  private static readonly RECORDING_CHUNKS = 'recordingChunks';
+  private static readonly USAGE = 'usage';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private cipher: PinCipher | null = null;
+
+  public setCipher(cipher: PinCipher | null): void {
+    this.cipher = cipher;
+  }
+
+  private requireCipher(): PinCipher {
+    if (!this.cipher) throw new Error('Note library is locked.');
+    return this.cipher;
+  }
+
+  private async sealNote(note: Note, cipher: PinCipher): Promise<SealedNote> {
+    const sealed = await cipher.encryptBytes(new TextEncoder().encode(JSON.stringify(note)));
+    return { id: note.id, ...sealed };
+  }
+
+  private async unsealNote(record: SealedNote | Note): Promise<Note> {
+    if (!('iv' in record)) return record; // Saved before encryption was introduced
+    const plain = await this.requireCipher().decryptBytes(record);
+    return JSON.parse(new TextDecoder().decode(plain)) as Note;
+  }
+
+  private async sealAudio(audio: StoredAudio, cipher: PinCipher): Promise<SealedAudio> {
+    const sealed = await cipher.encryptBytes(await audio.blob.arrayBuffer());
+    return { noteId: audio.noteId, mimeType: audio.mimeType, parts: audio.parts, ...sealed };
+  }
+
+  private async unsealAudio(record: SealedAudio | StoredAudio): Promise<StoredAudio> {
+    if (!('iv' in record)) return record;
+    const plain = await this.requireCipher().decryptBytes(record);
+    return { noteId: record.noteId, mimeType: record.mimeType, parts: record.parts, blob: new Blob([plain], { type: record.mimeType }) };
+  }
+
+  private async sealRecordingSession(session: RecordingSession, cipher: PinCipher): Promise<SealedRecordingSession> {
+    const sealed = await cipher.encryptBytes(new TextEncoder().encode(JSON.stringify(session)));
+    return { noteId: session.noteId, ...sealed };
+  }
+
+  private async unsealRecordingSession(record: SealedRecordingSession): Promise<RecordingSession> {
+    const plain = await this.requireCipher().decryptBytes(record);
+    return JSON.parse(new TextDecoder().decode(plain)) as RecordingSession;
+  }
+
+  private async sealRecordingChunk(chunk: RecordingChunk, cipher: PinCipher): Promise<SealedRecordingChunk> {
+    const { blob, ...keys } = chunk;
+    const sealed = await cipher.encryptBytes(await blob.arrayBuffer());
+    return { ...keys, ...sealed };
+  }
+
+  private async unsealRecordingChunk(record: SealedRecordingChunk): Promise<RecordingChunk> {
+    const plain = await this.requireCipher().decryptBytes(record);
+    const { iv, data, ...keys } = record;
+    return { ...keys, blob: new Blob([plain], { type: record.mimeType }) };
+  }
+
+  private async sealUsageEntry(entry: UsageEntry, cipher: PinCipher): Promise<SealedUsageEntry> {
+    const sealed = await cipher.encryptBytes(new TextEncoder().encode(JSON.stringify(entry)));
+    return { id: entry.id, ...sealed };
+  }
+
+  private async unsealUsageEntry(record: SealedUsageEntry): Promise<UsageEntry> {
+    const plain = await this.requireCipher().decryptBytes(record);
+    return JSON.parse(new TextDecoder().decode(plain)) as UsageEntry;
+  }
+
+  /** Key range covering every chunk of one recording: keys are [noteId, lapNumber, seq]. */
+  private static chunkRange(noteId: string): IDBKeyRange {
+    return IDBKeyRange.bound([noteId], [noteId, []]);
+  }
+
+  private static lapRange(noteId: string, lapNumber: number): IDBKeyRange {
+    return IDBKeyRange.bound([noteId, lapNumber], [noteId, lapNumber, []]);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(NoteStore.DB_NAME, NoteStore.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(NoteStore.NOTES)) {
+            db.createObjectStore(NoteStore.NOTES, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(NoteStore.AUDIO)) {
+            db.createObjectStore(NoteStore.AUDIO, { keyPath: 'noteId' });
+          }
+          if (!db.objectStoreNames.contains(NoteStore.RECORDINGS)) {
+            db.createObjectStore(NoteStore.RECORDINGS, { keyPath: 'noteId' });
+          }
+          if (!db.objectStoreNames.contains(NoteStore.RECORDING_CHUNKS)) {
+            db.createObjectStore(NoteStore.RECORDING_CHUNKS, { keyPath: ['noteId', 'lapNumber', 'seq'] });
+          }
+          if (!db.objectStoreNames.contains(NoteStore.USAGE)) {
+            db.createObjectStore(NoteStore.USAGE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null; // Allow a later retry
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => IDBRequest<T> | void
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    return new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(storeNames, mode);
+      const request = work(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  public async saveNote(note: Note, audio: StoredAudio | null = null): Promise<void> {
+    // Encrypt before opening the transaction: IndexedDB auto-commits across awaits.
+    const cipher = this.requireCipher();
+    const sealedNote = await this.sealNote(note, cipher);
+    const sealedAudio = audio ? await this.sealAudio(audio, cipher) : null;
+    const stores = sealedAudio ? [NoteStore.NOTES, NoteStore.AUDIO] : [NoteStore.NOTES];
+    await this.run(stores, 'readwrite', tx => {
+      tx.objectStore(NoteStore.NOTES).put(sealedNote);
+      if (sealedAudio) tx.objectStore(NoteStore.AUDIO).put(sealedAudio);
+    });
+  }
+
+  public async getAllNotes(): Promise<Note[]> {
+    const records = await this.run<(SealedNote | Note)[]>([NoteStore.NOTES], 'readonly', tx =>
+      tx.objectStore(NoteStore.NOTES).getAll()
+    );
+    const notes = await Promise.all((records || []).map(record => this.unsealNote(record)));
+    return notes.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  public async getNote(noteId: string): Promise<Note | null> {
+    const record = await this.run<SealedNote | Note>([NoteStore.NOTES], 'readonly', tx =>
+      tx.objectStore(NoteStore.NOTES).get(noteId)
+    );
+    return record ? this.unsealNote(record) : null;
+  }
+
+  public async getAudio(noteId: string): Promise<StoredAudio | null> {
+    const record = await this.run<SealedAudio | StoredAudio>([NoteStore.AUDIO], 'readonly', tx =>
+      tx.objectStore(NoteStore.AUDIO).get(noteId)
+    );
+    return record ? this.unsealAudio(record) : null;
+  }
+
+  public async saveRecordingSession(session: RecordingSession): Promise<void> {
+    const sealed = await this.sealRecordingSession(session, this.requireCipher());
+    await this.run([NoteStore.RECORDINGS], 'readwrite', tx => {
+      tx.objectStore(NoteStore.RECORDINGS).put(sealed);
+    });
+  }
+
+  public async appendRecordingChunk(chunk: RecordingChunk): Promise<void> {
+    const sealed = await this.sealRecordingChunk(chunk, this.requireCipher());
+    await this.run([NoteStore.RECORDING_CHUNKS], 'readwrite', tx => {
+      tx.objectStore(NoteStore.RECORDING_CHUNKS).put(sealed);
+    });
+  }
+
+  /** The most recent recording that was never finished, with its chunks in recording order. */
+  public async getUnfinishedRecording(): Promise<{ session: RecordingSession; chunks: RecordingChunk[] } | null> {
+    const records = await this.run<SealedRecordingSession[]>([NoteStore.RECORDINGS], 'readonly', tx =>
+      tx.objectStore(NoteStore.RECORDINGS).getAll()
+    );
+    if (!records || records.length === 0) return null;
+    const sessions = await Promise.all(records.map(record => this.unsealRecordingSession(record)));
+    const session = sessions.sort((a, b) => b.timestamp - a.timestamp)[0];
+
+    const chunkRecords = await this.run<SealedRecordingChunk[]>([NoteStore.RECORDING_CHUNKS], 'readonly', tx =>
+      tx.objectStore(NoteStore.RECORDING_CHUNKS).getAll(NoteStore.chunkRange(session.noteId))
+    );
+    const chunks = await Promise.all((chunkRecords || []).map(record => this.unsealRecordingChunk(record)));
+    return { session, chunks };
+  }
+
+  /** Closes a recording's journal. The audio of `keepLaps` stays behind so those laps can still be retried. */
+  public async deleteRecording(noteId: string, keepLaps: number[] = []): Promise<void> {
+    await this.run([NoteStore.RECORDINGS, NoteStore.RECORDING_CHUNKS], 'readwrite', tx => {
+      tx.objectStore(NoteStore.RECORDINGS).delete(noteId);
+      const chunks = tx.objectStore(NoteStore.RECORDING_CHUNKS);
+      if (keepLaps.length === 0) {
+        chunks.delete(NoteStore.chunkRange(noteId));
+        return;
+      }
+      const request = chunks.getAllKeys(NoteStore.chunkRange(noteId));
+      request.onsuccess = () => {
+        (request.result as [string, number, number][]).forEach(key => {
+          if (!keepLaps.includes(key[1])) chunks.delete(key);
+        });
+      };
+    });
+  }
+
+  /** The journaled audio of one lap, or null when none was kept. */
+  public async getLapAudio(noteId: string, lapNumber: number): Promise<Blob | null> {
+    const records = await this.run<SealedRecordingChunk[]>([NoteStore.RECORDING_CHUNKS], 'readonly', tx =>
+      tx.objectStore(NoteStore.RECORDING_CHUNKS).getAll(NoteStore.lapRange(noteId, lapNumber))
+    );
+    if (!records || records.length === 0) return null;
+    const chunks = await Promise.all(records.map(record => this.unsealRecordingChunk(record)));
+    return new Blob(chunks.map(chunk => chunk.blob), { type: chunks[0].mimeType });
+  }
+
+  public async deleteLapAudio(noteId: string, lapNumber: number): Promise<void> {
+    await this.run([NoteStore.RECORDING_CHUNKS], 'readwrite', tx => {
+      tx.objectStore(NoteStore.RECORDING_CHUNKS).delete(NoteStore.lapRange(noteId, lapNumber));
+    });
+  }
+
+  public async addUsageEntry(entry: UsageEntry): Promise<void> {
+    const sealed = await this.sealUsageEntry(entry, this.requireCipher());
+    await this.run([NoteStore.USAGE], 'readwrite', tx => {
+      tx.objectStore(NoteStore.USAGE).put(sealed);
+    });
+  }
+
+  /** The whole ledger, oldest request first. */
+  public async getUsageEntries(): Promise<UsageEntry[]> {
+    const records = await this.run<SealedUsageEntry[]>([NoteStore.USAGE], 'readonly', tx =>
+      tx.objectStore(NoteStore.USAGE).getAll()
+    );
+    const entries = await Promise.all((records || []).map(record => this.unsealUsageEntry(record)));
+    return entries.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Re-encrypts every record from `previous` to `target`, e.g. after a PIN change. Records are moved one at
+   * a time so a large library never has to fit in memory, and a rekey that was interrupted can simply be run
+   * again. Records still in plaintext from before encryption existed are encrypted too.
+   */
+  public async rekey(target: PinCipher, previous: PinCipher): Promise<void> {
+    this.cipher = target; // Anything saved while this runs is already under the new key
+    const stores = [NoteStore.NOTES, NoteStore.AUDIO, NoteStore.RECORDINGS, NoteStore.RECORDING_CHUNKS, NoteStore.USAGE];
+    for (const store of stores) {
+      const keys = await this.run<IDBValidKey[]>([store], 'readonly', tx => tx.objectStore(store).getAllKeys()) || [];
+      for (const key of keys) {
+        const record = await this.run<StoredRecord | undefined>([store], 'readonly', tx => tx.objectStore(store).get(key));
+        if (!record) continue;
+        let resealed: StoredRecord;
+        if (!('iv' in record)) {
+          if ('rawTranscription' in record) resealed = await this.sealNote(record, target);
+          else resealed = await this.sealAudio(record, target);
+        } else {
+          const moved = await reencryptBytes(record, target, previous);
+          if (moved === record) continue;
+          resealed = { ...record, ...moved };
+        }
+        await this.run([store], 'readwrite', tx => {
+          tx.objectStore(store).put(resealed);
+        });
+      }
+    }
+  }
+
+  public async deleteNote(noteId: string): Promise<void> {
+    const stores = [NoteStore.NOTES, NoteStore.AUDIO, NoteStore.RECORDINGS, NoteStore.RECORDING_CHUNKS];
+    await this.run(stores, 'readwrite', tx => {
+      tx.objectStore(NoteStore.NOTES).delete(noteId);
+      tx.objectStore(NoteStore.AUDIO).delete(noteId);
+      tx.objectStore(NoteStore.RECORDINGS).delete(noteId);
+      tx.objectStore(NoteStore.RECORDING_CHUNKS).delete(NoteStore.chunkRange(noteId)); // Audio kept for failed laps
+    });
+  }
+
+  public async clear(): Promise<void> {
+    const stores = [NoteStore.NOTES, NoteStore.AUDIO, NoteStore.RECORDINGS, NoteStore.RECORDING_CHUNKS, NoteStore.USAGE];
+    await this.run(stores, 'readwrite', tx => {
+      stores.forEach(store => tx.objectStore(store).clear());
+    });
+  }
+}
+
+// ============================================================================
+
+class VoiceNotesApp {
+  private genAI: any = null;
+  private activeRecorder: ActiveRecorder | null = null;
+  private newButton: HTMLButtonElement;
+  private uploadButton: HTMLButtonElement;
+  private downloadAudioButton: HTMLButtonElement;
+  private downloadNoteButton: HTMLButtonElement;
+  private downloadFhirButton: HTMLButtonElement;
+  private audioUploadInput: HTMLInputElement;
+  private themeToggleButton: HTMLButtonElement;
+  private copyButton: HTMLButtonElement;
+  private copyMetaButton: HTMLButtonElement;
+  private copyRawButton: HTMLButtonElement;
+  private themeToggleIcon: HTMLElement;
+  private editCustomPromptButton: HTMLButtonElement;
+  private sessionAudioChunks: Blob[] = [];
+  private sessionAudioStartMs: number[] = []; // Where each of sessionAudioChunks starts in the recording
+  private sessionMimeType: string = '';
+
+  // Recording State
+  private isRecording = false;
+  private isPaused = false;
+  private isProcessing = false;
+  private lapCount = 0;
+  private lapSegments: LapSegment[] = [];
+  private activeTranscriptions = 0;
+  private lapQueueDrainedCallbacks: (() => void)[] = [];
+  private recordingSession: RecordingSession | null = null;
+  private allRawLapText = '';
+  private totalDurationMs = 0;
+
+  private currentNote: Note | null = null;
+  private noteStore = new NoteStore();
+  private stream: MediaStream | null = null;
+  private currentModeId: ModeID = 'doctor';
+
+  // UI Elements for Mode Selector
+  private modeSelectorContainer: HTMLDivElement;
+  private modeSelectorButton: HTMLButtonElement;
+  private currentModeNameSpan: HTMLSpanElement;
+  private modeList: HTMLDivElement;
+
+  // UI Elements for Timezone Selector
+  private timezoneSelectorContainer: HTMLDivElement;
+  private timezoneSelectorButton: HTMLButtonElement;
+  private currentTimezoneNameSpan: HTMLSpanElement;
+  private timezoneList: HTMLDivElement;
+  private currentTimezone: string = 'Aurangabad';
+  
+  // Custom Prompt Modal
+  private customPromptModal: HTMLDivElement;
+  private customPromptTextarea: HTMLTextAreaElement;
+  private saveCustomPromptButton: HTMLButtonElement;
+  private cancelCustomPromptButton: HTMLButtonElement;
+  private customPromptTitle: HTMLHeadingElement;
+  private customModeNameInput: HTMLInputElement;
+  private customPromptSettingsItem: HTMLDivElement;
+  private editingModeId: ModeID | null = null;
+  private modes = new ModeRegistry();
+
+  // Mode Manager
+  private manageModesButton: HTMLButtonElement;
+  private modeManagerModal: HTMLDivElement;
+  private modeManagerList: HTMLDivElement;
+  private newModeButton: HTMLButtonElement;
+  private modeManagerCloseButton: HTMLButtonElement;
+  private exportModesButton: HTMLButtonElement;
+  private importModesButton: HTMLButtonElement;
+  private modePackInput: HTMLInputElement;
+  private selectedExportModeIds = new Set<ModeID>();
+
+  // Mode pack import preview
+  private modeImportModal: HTMLDivElement;
+  private modeImportSummary: HTMLParagraphElement;
+  private modeImportList: HTMLDivElement;
+  private modeImportConfirmButton: HTMLButtonElement;
+  private modeImportCancelButton: HTMLButtonElement;
+  private pendingModeImport: { entry: ModePackEntry; action: ModeImportAction }[] = [];
+
+  // Note Library
+  private libraryButton: HTMLButtonElement;
+  private libraryModal: HTMLDivElement;
+  private libraryList: HTMLDivElement;
+  private libraryModalCloseButton: HTMLButtonElement;
+
+  // Info Modal
+  private infoModal: HTMLDivElement;
+  private infoModalTitle: HTMLHeadingElement;
+  private infoModalContent: HTMLDivElement;
+  private infoModalCloseButton: HTMLButtonElement;
+
+  // Settings Menu
+  private settingsMenuContainer: HTMLDivElement;
+  private settingsButton: HTMLButtonElement;
+  private settingsMenuList: HTMLDivElement;
+  
+  // Metadata display
+  private noteMetadata: HTMLDivElement;
+  private metaDatetime: HTMLDivElement;
+  private metaDuration: HTMLDivElement;
+  private metaSize: HTMLDivElement;
+  private metaMode: HTMLDivElement;
+  private metaModels: HTMLDivElement;
+  private metaCost: HTMLDivElement;
+
+  // Live recording UI
+  private fabRecord: HTMLButtonElement;
+  private recordingDialog: HTMLDivElement;
+  private liveRecordingTitle: HTMLDivElement;
+  private liveWaveformCanvas: HTMLCanvasElement;
+  private liveRecordingTimerDisplay: HTMLDivElement;
+
+  // Recording Controls
+  private stopButton: HTMLButtonElement;
+  private pauseButton: HTMLButtonElement;
+  private lapButton: HTMLButtonElement;
+  private lapStatusList: HTMLDivElement;
+  private lapRetryBar: HTMLDivElement;
+  private speakerBar: HTMLDivElement;
+
+  // Session audio player. Laps are separate recordings, so each plays from its own URL in turn.
+  private audioPlayer: HTMLDivElement;
+  private audioPlayerToggle: HTMLButtonElement;
+  private audioPlayerSeek: HTMLInputElement;
+  private audioPlayerTime: HTMLSpanElement;
+  private playbackAudio = new Audio();
+  private playbackParts: { url: string; startMs: number }[] = [];
+  private playbackPartIndex = -1;
+  private playbackDurationMs = 0;
+  private playbackStopAtMs: number | null = null;
+  private isSeekDragging = false;
+
+  // Content display
+  private rawTranscription: HTMLDivElement;
+  private polishedNote: HTMLDivElement;
+  private incompleteNotice: HTMLDivElement;
+  private globalStatus: HTMLDivElement;
+
+  // Polished note editing
+  private polishedEditor: HTMLDivElement;
+  private polishedSource: HTMLTextAreaElement;
+  private undoEditButton: HTMLButtonElement;
+  private redoEditButton: HTMLButtonElement;
+  private toggleSourceButton: HTMLButtonElement;
+  private editStatus: HTMLSpanElement;
+  private renditionSelect: HTMLSelectElement;
+  private repolishButton: HTMLButtonElement;
+  private repolishModal: HTMLDivElement;
+  private repolishModeSelect: HTMLSelectElement;
+  private confirmRepolishButton: HTMLButtonElement;
+  private cancelRepolishButton: HTMLButtonElement;
+  private historyButton: HTMLButtonElement;
+  private historyModal: HTMLDivElement;
+  private historyList: HTMLDivElement;
+  private historyCompareSelect: HTMLSelectElement;
+  private historyDiff: HTMLDivElement;
+  private restoreVersionButton: HTMLButtonElement;
+  private closeHistoryButton: HTMLButtonElement;
+  private selectedVersionId: string | null = null;
+  private refineInput: HTMLTextAreaElement;
+  private refineButton: HTMLButtonElement;
+  private deidentifyModal: HTMLDivElement;
+  private deidentifyViewSelect: HTMLSelectElement;
+  private deidentifyPreview: HTMLDivElement;
+  private deidentifyIncludeTranscriptToggle: HTMLInputElement;
+  private copyDeidentifiedButton: HTMLButtonElement;
+  private downloadDeidentifiedButton: HTMLButtonElement;
+  private downloadRedactionReportButton: HTMLButtonElement;
+  private closeDeidentifyButton: HTMLButtonElement;
+  private deidentified: DeidentifiedNote | null = null;
+  private editHistory: string[] = [''];
+  private editHistoryIndex = 0;
+  private editSnapshotTimerId: number | null = null;
+  private editSaveTimerId: number | null = null;
+  private hasUnsavedEdits = false;
+
+  // Tab UI
+  private tabButtons: NodeListOf<HTMLButtonElement>;
+  private tabIndicator: HTMLDivElement;
+  private tabPanes: NodeListOf<HTMLDivElement>;
+  
+  // NEW: Waveform Visualizer
+  private waveformVisualizer: WaveformVisualizer | null = null;
+  private timerIntervalId: number | null = null;
+  private recordingStartTime: number = 0;
+
+  // Mobile UI elements
+  private moreMenuContainer: HTMLDivElement;
+  private moreMenuButton: HTMLButtonElement;
+  private moreMenuList: HTMLDivElement;
+  private moreMenuThemeToggleIcon: HTMLElement | null = null;
+  private bottomNav: HTMLElement;
+  private bottomNavNew: HTMLButtonElement;
+  private bottomNavRecord: HTMLButtonElement;
+  private bottomNavUpload: HTMLButtonElement;
+  private timezoneModal: HTMLDivElement;
+  private mobileTimezoneList: HTMLDivElement;
+  private timezoneModalCloseButton: HTMLButtonElement;
+
+  // Auto-download feature
+  private autoDownloadToggle: HTMLInputElement;
+  private autoDownloadEnabled: boolean = false;
+  private autoLapToggle: HTMLInputElement;
+  private autoLapEnabled: boolean = false;
+  private autoLapIntervalId: number | null = null;
+  private silenceStartedAt = 0;
+
+  // Security properties
+  private pinModal: HTMLDivElement;
+  private pinTitle: HTMLHeadingElement;
+  private pinSubtitle: HTMLParagraphElement;
+  private pinForm: HTMLDivElement;
+  private pinInputs: HTMLInputElement[];
+  private pinErrorMessage: HTMLDivElement;
+  private pinSubmitButton: HTMLButtonElement;
+  private pinForgotButton: HTMLButtonElement;
+  private pinCancelButton: HTMLButtonElement;
+  private pinMode: 'set' | 'enter' | 'confirm' | 'current' = 'enter';
+  private firstPinAttempt = '';
+  private isChangingPin = false;
+  private currentPinForChange = ''; // Kept until the new PIN is confirmed, to record the change as pending
+  private changePinFailures = 0;
+  private cipher: PinCipher | null = null;
+  private apiKey = '';
+  private pinThrottleTimerId: number | null = null;
+
+  // Auto-lock
+  private isAppInitialized = false;
+  private isLocked = true;
+  private lockedNoteId: string | null = null;
+  private savedAudioSignature = ''; // The session audio already in the library, so saving edits doesn't rewrite it
+  private lastActivityTime = Date.now();
+  private hiddenSince = 0;
+  private idleLockMinutes = DEFAULT_IDLE_LOCK_MINUTES;
+  private hiddenLockMinutes = DEFAULT_HIDDEN_LOCK_MINUTES;
+  private idleLockSelect: HTMLSelectElement;
+  private hiddenLockSelect: HTMLSelectElement;
+  private lockNowButton: HTMLButtonElement;
+  
+  // API Key properties
+  private apiKeyModal: HTMLDivElement;
+  private apiKeyInput: HTMLInputElement;
+  private saveApiKeyButton: HTMLButtonElement;
+  private apiKeyAiServicesButton: HTMLButtonElement;
+  private toggleApiKeyVisibilityButton: HTMLButtonElement;
+  private updateApiKeyButton: HTMLButtonElement;
+  private changePinButton: HTMLButtonElement;
+
+  // AI services
+  private aiServicesButton: HTMLButtonElement;
+  private aiServicesModal: HTMLDivElement;
+  private aiServiceForms: Record<AiStep, {
+    providerSelect: HTMLSelectElement;
+    geminiFields: HTMLLabelElement;
+    geminiModelSelect: HTMLSelectElement;
+    serverFields: HTMLDivElement;
+    baseUrlInput: HTMLInputElement;
+    modelInput: HTMLInputElement;
+    keyInput: HTMLInputElement;
+  }>;
+  private saveAiServicesButton: HTMLButtonElement;
+  private cancelAiServicesButton: HTMLButtonElement;
+  private aiServiceSettings: Record<AiStep, AiServiceSettings> = {
+    transcription: { provider: 'gemini', geminiModel: DEFAULT_GEMINI_MODEL, baseUrl: '', model: '' },
+    polishing: { provider: 'gemini', geminiModel: DEFAULT_GEMINI_MODEL, baseUrl: '', model: '' },
+  };
+  private aiServerKeys: Record<AiStep, string> = { transcription: '', polishing: '' };
+  private editModelPricingButton: HTMLButtonElement;
+  private modelPricingModal: HTMLDivElement;
+  private modelPricingRows: HTMLTableSectionElement;
+  private addModelPricingRowButton: HTMLButtonElement;
+  private saveModelPricingButton: HTMLButtonElement;
+  private cancelModelPricingButton: HTMLButtonElement;
+  private pricingTable = new PricingTable();
+
+  // Glossary
+  private glossaryButton: HTMLButtonElement;
+  private glossaryModal: HTMLDivElement;
+  private glossaryRows: HTMLTableSectionElement;
+  private addGlossaryRowButton: HTMLButtonElement;
+  private glossaryAutoCorrectToggle: HTMLInputElement;
+  private saveGlossaryButton: HTMLButtonElement;
+  private cancelGlossaryButton: HTMLButtonElement;
+  private glossary = new Glossary();
+  private glossaryAutoCorrect = true;
+
+  // Usage ledger and budget
+  private usageButton: HTMLButtonElement;
+  private usageModal: HTMLDivElement;
+  private usageToday: HTMLSpanElement;
+  private usageWeek: HTMLSpanElement;
+  private usageMonth: HTMLSpanElement;
+  private usageBudgetBar: HTMLDivElement;
+  private usageBudgetFill: HTMLDivElement;
+  private usageBudgetStatus: HTMLParagraphElement;
+  private usageGroupingSelect: HTMLSelectElement;
+  private usageRows: HTMLTableSectionElement;
+  private usageBudgetInput: HTMLInputElement;
+  private blockOverBudgetToggle: HTMLInputElement;
+  private saveUsageBudgetButton: HTMLButtonElement;
+  private closeUsageButton: HTMLButtonElement;
+  private usageLedger: UsageEntry[] = [];
+  private usageBudget: UsageBudget = { limit: 0, blockRecordings: false };
+
+  constructor() {
+    // Main buttons
+    this.newButton = document.getElementById('newButton') as HTMLButtonElement;
+    this.uploadButton = document.getElementById('uploadButton') as HTMLButtonElement;
+    this.downloadAudioButton = document.getElementById('downloadAudioButton') as HTMLButtonElement;
+    this.downloadNoteButton = document.getElementById('downloadNoteButton') as HTMLButtonElement;
+    this.downloadFhirButton = document.getElementById('downloadFhirButton') as HTMLButtonElement;
+    this.audioUploadInput = document.getElementById('audioUploadInput') as HTMLInputElement;
+    this.themeToggleButton = document.getElementById('themeToggleButton') as HTMLButtonElement;
+    this.copyButton = document.getElementById('copyButton') as HTMLButtonElement;
+    this.copyMetaButton = document.getElementById('copyMetaButton') as HTMLButtonElement;
+    this.copyRawButton = document.getElementById('copyRawButton') as HTMLButtonElement;
+    this.themeToggleIcon = this.themeToggleButton.querySelector('i') as HTMLElement;
+    this.editCustomPromptButton = document.getElementById('editCustomPromptButton') as HTMLButtonElement;
+    this.autoDownloadToggle = document.getElementById('autoDownloadToggle') as HTMLInputElement;
+    this.autoLapToggle = document.getElementById('autoLapToggle') as HTMLInputElement;
+
+    // Settings Menu
+    this.settingsMenuContainer = document.getElementById('settingsMenuContainer') as HTMLDivElement;
+    this.settingsButton = document.getElementById('settingsButton') as HTMLButtonElement;
+    this.settingsMenuList = document.getElementById('settingsMenuList') as HTMLDivElement;
+    this.customPromptSettingsItem = document.getElementById('customPromptSettingsItem') as HTMLDivElement;
+
+    // Mobile UI elements
+    this.moreMenuContainer = document.getElementById('moreMenuContainer') as HTMLDivElement;
+    this.moreMenuButton = document.getElementById('moreMenuButton') as HTMLButtonElement;
+    this.moreMenuList = document.getElementById('moreMenuList') as HTMLDivElement;
+    this.bottomNav = document.getElementById('bottomNav') as HTMLElement;
+    this.bottomNavNew = document.getElementById('bottomNavNew') as HTMLButtonElement;
+    this.bottomNavRecord = document.getElementById('bottomNavRecord') as HTMLButtonElement;
+    this.bottomNavUpload = document.getElementById('bottomNavUpload') as HTMLButtonElement;
+    this.timezoneModal = document.getElementById('timezoneModal') as HTMLDivElement;
+    this.mobileTimezoneList = document.getElementById('mobileTimezoneList') as HTMLDivElement;
+    this.timezoneModalCloseButton = document.getElementById('timezoneModalCloseButton') as HTMLButtonElement;
+
+
+    // Recording controls
+    this.fabRecord = document.getElementById('fabRecord') as HTMLButtonElement;
+    this.recordingDialog = document.getElementById('recordingDialog') as HTMLDivElement;
+    this.stopButton = document.getElementById('stopButton') as HTMLButtonElement;
+    this.pauseButton = document.getElementById('pauseButton') as HTMLButtonElement;
+    this.lapButton = document.getElementById('lapButton') as HTMLButtonElement;
+    
+    // Content areas
+    this.globalStatus = document.getElementById('globalStatus') as HTMLDivElement;
+    this.rawTranscription = document.getElementById('rawTranscription') as HTMLDivElement;
+    this.polishedNote = document.getElementById('polishedNote') as HTMLDivElement;
+    this.incompleteNotice = document.getElementById('incompleteNotice') as HTMLDivElement;
+    this.polishedEditor = document.getElementById('polishedEditor') as HTMLDivElement;
+    this.polishedSource = document.getElementById('polishedSource') as HTMLTextAreaElement;
+    this.undoEditButton = document.getElementById('undoEditButton') as HTMLButtonElement;
+    this.redoEditButton = document.getElementById('redoEditButton') as HTMLButtonElement;
+    this.toggleSourceButton = document.getElementById('toggleSourceButton') as HTMLButtonElement;
+    this.editStatus = document.getElementById('editStatus') as HTMLSpanElement;
+    this.renditionSelect = document.getElementById('renditionSelect') as HTMLSelectElement;
+    this.repolishButton = document.getElementById('repolishButton') as HTMLButtonElement;
+    this.repolishModal = document.getElementById('repolishModal') as HTMLDivElement;
+    this.repolishModeSelect = document.getElementById('repolishModeSelect') as HTMLSelectElement;
+    this.confirmRepolishButton = document.getElementById('confirmRepolishButton') as HTMLButtonElement;
+    this.cancelRepolishButton = document.getElementById('cancelRepolishButton') as HTMLButtonElement;
+    this.historyButton = document.getElementById('historyButton') as HTMLButtonElement;
+    this.historyModal = document.getElementById('historyModal') as HTMLDivElement;
+    this.historyList = document.getElementById('historyList') as HTMLDivElement;
+    this.historyCompareSelect = document.getElementById('historyCompareSelect') as HTMLSelectElement;
+    this.historyDiff = document.getElementById('historyDiff') as HTMLDivElement;
+    this.restoreVersionButton = document.getElementById('restoreVersionButton') as HTMLButtonElement;
+    this.closeHistoryButton = document.getElementById('closeHistoryButton') as HTMLButtonElement;
+    this.refineInput = document.getElementById('refineInput') as HTMLTextAreaElement;
+    this.refineButton = document.getElementById('refineButton') as HTMLButtonElement;
+    this.deidentifyModal = document.getElementById('deidentifyModal') as HTMLDivElement;
+    this.deidentifyViewSelect = document.getElementById('deidentifyViewSelect') as HTMLSelectElement;
+    this.deidentifyPreview = document.getElementById('deidentifyPreview') as HTMLDivElement;
+    this.deidentifyIncludeTranscriptToggle = document.getElementById('deidentifyIncludeTranscriptToggle') as HTMLInputElement;
+    this.copyDeidentifiedButton = document.getElementById('copyDeidentifiedButton') as HTMLButtonElement;
+    this.downloadDeidentifiedButton = document.getElementById('downloadDeidentifiedButton') as HTMLButtonElement;
+    this.downloadRedactionReportButton = document.getElementById('downloadRedactionReportButton') as HTMLButtonElement;
+    this.closeDeidentifyButton = document.getElementById('closeDeidentifyButton') as HTMLButtonElement;
+    
+    // Mode Selector Elements
+    this.modeSelectorContainer = document.getElementById('modeSelectorContainer') as HTMLDivElement;
+    this.modeSelectorButton = document.getElementById('modeSelectorButton') as HTMLButtonElement;
+    this.currentModeNameSpan = document.getElementById('currentModeName') as HTMLSpanElement;
+    this.modeList = document.getElementById('modeList') as HTMLDivElement;
+
+    // Timezone Selector Elements
+    this.timezoneSelectorContainer = document.getElementById('timezoneSelectorContainer') as HTMLDivElement;
+    this.timezoneSelectorButton = document.getElementById('timezoneSelectorButton') as HTMLButtonElement;
+    this.currentTimezoneNameSpan = document.getElementById('currentTimezoneName') as HTMLSpanElement;
+    this.timezoneList = document.getElementById('timezoneList') as HTMLDivElement;
+
+    // Custom Prompt Modal
+    this.customPromptModal = document.getElementById('customPromptModal') as HTMLDivElement;
+    this.customPromptTextarea = document.getElementById('customPromptTextarea') as HTMLTextAreaElement;
+    this.saveCustomPromptButton = document.getElementById('saveCustomPromptButton') as HTMLButtonElement;
+    this.cancelCustomPromptButton = document.getElementById('cancelCustomPromptButton') as HTMLButtonElement;
+    this.customPromptTitle = document.getElementById('customPromptTitle') as HTMLHeadingElement;
+    this.customModeNameInput = document.getElementById('customModeNameInput') as HTMLInputElement;
+
+    // Mode Manager
+    this.manageModesButton = document.getElementById('manageModesButton') as HTMLButtonElement;
+    this.modeManagerModal = document.getElementById('modeManagerModal') as HTMLDivElement;
+    this.modeManagerList = document.getElementById('modeManagerList') as HTMLDivElement;
+    this.newModeButton = document.getElementById('newModeButton') as HTMLButtonElement;
+    this.modeManagerCloseButton = document.getElementById('modeManagerCloseButton') as HTMLButtonElement;
+    this.exportModesButton = document.getElementById('exportModesButton') as HTMLButtonElement;
+    this.importModesButton = document.getElementById('importModesButton') as HTMLButtonElement;
+    this.modePackInput = document.getElementById('modePackInput') as HTMLInputElement;
+    this.modeImportModal = document.getElementById('modeImportModal') as HTMLDivElement;
+    this.modeImportSummary = document.getElementById('modeImportSummary') as HTMLParagraphElement;
+    this.modeImportList = document.getElementById('modeImportList') as HTMLDivElement;
+    this.modeImportConfirmButton = document.getElementById('modeImportConfirmButton') as HTMLButtonElement;
+    this.modeImportCancelButton = document.getElementById('modeImportCancelButton') as HTMLButtonElement;
+
+    // Note Library
+    this.libraryButton = document.getElementById('libraryButton') as HTMLButtonElement;
+    this.libraryModal = document.getElementById('libraryModal') as HTMLDivElement;
+    this.libraryList = document.getElementById('libraryList') as HTMLDivElement;
+    this.libraryModalCloseButton = document.getElementById('libraryModalCloseButton') as HTMLButtonElement;
+
+    // Info Modal
+    this.infoModal = document.getElementById('infoModal') as HTMLDivElement;
+    this.infoModalTitle = document.getElementById('infoModalTitle') as HTMLHeadingElement;
+    this.infoModalContent = document.getElementById('infoModalContent') as HTMLDivElement;
+    this.infoModalCloseButton = document.getElementById('infoModalCloseButton') as HTMLButtonElement;
+    
+    // Metadata
+    this.noteMetadata = document.getElementById('noteMetadata') as HTMLDivElement;
+    this.metaDatetime = document.getElementById('meta-datetime') as HTMLDivElement;
+    this.metaDuration = document.getElementById('meta-duration') as HTMLDivElement;
+    this.metaSize = document.getElementById('meta-size') as HTMLDivElement;
+    this.metaMode = document.getElementById('meta-mode') as HTMLDivElement;
+    this.metaModels = document.getElementById('meta-models') as HTMLDivElement;
+    this.metaCost = document.getElementById('meta-cost') as HTMLDivElement;
+
+    // Live display
+    this.liveRecordingTitle = document.getElementById('liveRecordingTitle') as HTMLDivElement;
+    this.liveWaveformCanvas = document.getElementById('liveWaveformCanvas') as HTMLCanvasElement;
+    this.liveRecordingTimerDisplay = document.getElementById('liveRecordingTimerDisplay') as HTMLDivElement;
+    this.lapStatusList = document.getElementById('lapStatusList') as HTMLDivElement;
+    this.lapRetryBar = document.getElementById('lapRetryBar') as HTMLDivElement;
+    this.speakerBar = document.getElementById('speakerBar') as HTMLDivElement;
+    this.audioPlayer = document.getElementById('audioPlayer') as HTMLDivElement;
+    this.audioPlayerToggle = document.getElementById('audioPlayerToggle') as HTMLButtonElement;
+    this.audioPlayerSeek = document.getElementById('audioPlayerSeek') as HTMLInputElement;
+    this.audioPlayerTime = document.getElementById('audioPlayerTime') as HTMLSpanElement;
+
+    // Tabs
+    this.tabButtons = document.querySelectorAll('.tab-button');
+    this.tabIndicator = document.querySelector('.tab-indicator') as HTMLDivElement;
+    this.tabPanes = document.querySelectorAll('.tab-pane');
+    
+    // Get PIN modal elements
+    this.pinModal = document.getElementById('pinModal') as HTMLDivElement;
+    this.pinTitle = document.getElementById('pinTitle') as HTMLHeadingElement;
+    this.pinSubtitle = document.getElementById('pinSubtitle') as HTMLParagraphElement;
+    this.pinForm = document.getElementById('pinForm') as HTMLDivElement;
+    this.pinInputs = Array.from(this.pinForm.querySelectorAll('.pin-input'));
+    this.pinErrorMessage = document.getElementById('pinErrorMessage') as HTMLDivElement;
+    this.pinSubmitButton = document.getElementById('pinSubmitButton') as HTMLButtonElement;
+    this.pinForgotButton = document.getElementById('pinForgotButton') as HTMLButtonElement;
+    this.pinCancelButton = document.getElementById('pinCancelButton') as HTMLButtonElement;
 
     // Get API Key modal elements
     this.apiKeyModal = document.getElementById('apiKeyModal') as HTMLDivElement;
     this.apiKeyInput = document.getElementById('apiKeyInput') as HTMLInputElement;
     this.saveApiKeyButton = document.getElementById('saveApiKeyButton') as HTMLButtonElement;
+    this.apiKeyAiServicesButton = document.getElementById('apiKeyAiServicesButton') as HTMLButtonElement;
     this.toggleApiKeyVisibilityButton = document.getElementById('toggleApiKeyVisibility') as HTMLButtonElement;
     this.updateApiKeyButton = document.getElementById('updateApiKeyButton') as HTMLButtonElement;
+    this.changePinButton = document.getElementById('changePinButton') as HTMLButtonElement;
+
+    // AI services modal
+    this.aiServicesButton = document.getElementById('aiServicesButton') as HTMLButtonElement;
+    this.aiServicesModal = document.getElementById('aiServicesModal') as HTMLDivElement;
+    const aiServiceForm = (step: AiStep) => ({
+      providerSelect: document.getElementById(`${step}ProviderSelect`) as HTMLSelectElement,
+      geminiFields: document.getElementById(`${step}GeminiFields`) as HTMLLabelElement,
+      geminiModelSelect: document.getElementById(`${step}GeminiModelSelect`) as HTMLSelectElement,
+      serverFields: document.getElementById(`${step}ServerFields`) as HTMLDivElement,
+      baseUrlInput: document.getElementById(`${step}BaseUrlInput`) as HTMLInputElement,
+      modelInput: document.getElementById(`${step}ModelInput`) as HTMLInputElement,
+      keyInput: document.getElementById(`${step}KeyInput`) as HTMLInputElement,
+    });
+    this.aiServiceForms = { transcription: aiServiceForm('transcription'), polishing: aiServiceForm('polishing') };
+    this.saveAiServicesButton = document.getElementById('saveAiServicesButton') as HTMLButtonElement;
+    this.cancelAiServicesButton = document.getElementById('cancelAiServicesButton') as HTMLButtonElement;
+    this.editModelPricingButton = document.getElementById('editModelPricingButton') as HTMLButtonElement;
+    this.modelPricingModal = document.getElementById('modelPricingModal') as HTMLDivElement;
+    this.modelPricingRows = document.getElementById('modelPricingRows') as HTMLTableSectionElement;
+    this.addModelPricingRowButton = document.getElementById('addModelPricingRowButton') as HTMLButtonElement;
+    this.saveModelPricingButton = document.getElementById('saveModelPricingButton') as HTMLButtonElement;
+    this.cancelModelPricingButton = document.getElementById('cancelModelPricingButton') as HTMLButtonElement;
+
+    // Glossary
+    this.glossaryButton = document.getElementById('glossaryButton') as HTMLButtonElement;
+    this.glossaryModal = document.getElementById('glossaryModal') as HTMLDivElement;
+    this.glossaryRows = document.getElementById('glossaryRows') as HTMLTableSectionElement;
+    this.addGlossaryRowButton = document.getElementById('addGlossaryRowButton') as HTMLButtonElement;
+    this.glossaryAutoCorrectToggle = document.getElementById('glossaryAutoCorrectToggle') as HTMLInputElement;
+    this.saveGlossaryButton = document.getElementById('saveGlossaryButton') as HTMLButtonElement;
+    this.cancelGlossaryButton = document.getElementById('cancelGlossaryButton') as HTMLButtonElement;
+
+    // Usage dashboard
+    this.usageButton = document.getElementById('usageButton') as HTMLButtonElement;
+    this.usageModal = document.getElementById('usageModal') as HTMLDivElement;
+    this.usageToday = document.getElementById('usageToday') as HTMLSpanElement;
+    this.usageWeek = document.getElementById('usageWeek') as HTMLSpanElement;
+    this.usageMonth = document.getElementById('usageMonth') as HTMLSpanElement;
+    this.usageBudgetBar = document.getElementById('usageBudgetBar') as HTMLDivElement;
+    this.usageBudgetFill = document.getElementById('usageBudgetFill') as HTMLDivElement;
+    this.usageBudgetStatus = document.getElementById('usageBudgetStatus') as HTMLParagraphElement;
+    this.usageGroupingSelect = document.getElementById('usageGroupingSelect') as HTMLSelectElement;
+    this.usageRows = document.getElementById('usageRows') as HTMLTableSectionElement;
+    this.usageBudgetInput = document.getElementById('usageBudgetInput') as HTMLInputElement;
+    this.blockOverBudgetToggle = document.getElementById('blockOverBudgetToggle') as HTMLInputElement;
+    this.saveUsageBudgetButton = document.getElementById('saveUsageBudgetButton') as HTMLButtonElement;
+    this.closeUsageButton = document.getElementById('closeUsageButton') as HTMLButtonElement;
+
+    // Auto-lock settings
+    this.idleLockSelect = document.getElementById('idleLockSelect') as HTMLSelectElement;
+    this.hiddenLockSelect = document.getElementById('hiddenLockSelect') as HTMLSelectElement;
+    this.lockNowButton = document.getElementById('lockNowButton') as HTMLButtonElement;
 
     // Start the security check first.
     this.initSecurity();
   }
 
   private async initSecurity(): Promise<void> {
-    const pinHash = localStorage.getItem('scribeai_pin_hash');
-    if (pinHash) {
-        let refreshCount = parseInt(localStorage.getItem('scribeai_refresh_count') || '0', 10);
-        refreshCount++;
-        
-        if (refreshCount >= 10) {
-            this.showEnterPinScreen(); // This will lead to handlePinSubmit, which will reset the counter on success.
-        } else {
-            localStorage.setItem('scribeai_refresh_count', String(refreshCount));
-            this.unlockApp(); // Just unlock, no PIN needed.
-        }
+    this.bindPinEvents();
+    // The encryption key is never stored, so the PIN is needed on every start.
+    const hasPin = localStorage.getItem('scribeai_pin_salt') || localStorage.getItem('scribeai_pin_hash');
+    if (hasPin) {
+        this.showEnterPinScreen();
     } else {
         this.showSetPinScreen();
     }
@@ -586,66 +3885,516 @@ class VoiceNotesApp {
     this.initTheme();
     this.initTabs();
     this.initAutoDownload();
+    this.initAutoLap();
+    this.initAutoLock();
+    this.loadAiServiceSettings();
+    this.loadUsageBudget();
+    this.pricingTable.load();
+    this.glossaryAutoCorrect = localStorage.getItem('scribeai_glossary_autocorrect') !== 'false';
+    this.modes.load();
     this.initCustomModeSelector();
     this.initTimezoneSelector();
-    this.loadCustomPrompt();
     this.loadAndSetInitialMode();
     this.createNewNote();
     this.downloadAudioButton.disabled = true;
 
-    this.initApiKey();
+    this.initApiKey();
+    this.offerRecordingRecovery();
+  }
+
+  /** Sets up the Gemini client. A key is only required while transcription or polishing runs on Gemini. */
+  private initApiKey(): void {
+    if (this.apiKey) {
+      this.initializeGenAI(this.apiKey);
+    } else if (this.usesGemini()) {
+      this.apiKeyModal.style.display = 'flex';
+      this.disableAppFeatures();
+      this.setGlobalStatus('API Key required to begin', false, true);
+    } else {
+      this.apiKeyModal.style.display = 'none';
+      this.enableAppFeatures();
+      this.setGlobalStatus('Ready to record');
+    }
+  }
+
+  private usesGemini(): boolean {
+    return AI_STEPS.some(step => this.aiServiceSettings[step].provider === 'gemini');
+  }
+
+  /** Whether every configured provider can take requests: self-hosted ones always can, Gemini needs its client. */
+  private isAiReady(): boolean {
+    return !!this.genAI || !this.usesGemini();
+  }
+  
+  private initializeGenAI(apiKey: string): void {
+    try {
+      this.genAI = new GoogleGenAI({ apiKey });
+      this.apiKeyModal.style.display = 'none';
+      this.enableAppFeatures();
+      this.setGlobalStatus('Ready to record');
+    } catch (e) {
+      console.error('Error initializing GoogleGenAI:', e);
+      this.setGlobalStatus('Failed to initialize AI.', false, true);
+      this.disableAppFeatures();
+    }
+  }
+
+  private disableAppFeatures(): void {
+    this.fabRecord.disabled = true;
+    this.uploadButton.disabled = true;
+    this.bottomNavRecord.disabled = true;
+    this.bottomNavUpload.disabled = true;
+  }
+
+  private enableAppFeatures(): void {
+    this.fabRecord.disabled = false;
+    this.uploadButton.disabled = false;
+    this.bottomNavRecord.disabled = false;
+    this.bottomNavUpload.disabled = false;
+  }
+  
+  private async handleSaveApiKey(): Promise<void> {
+    const apiKey = this.apiKeyInput.value.trim();
+    if (apiKey) {
+      await this.storeApiKey(apiKey);
+      this.initializeGenAI(apiKey);
+    } else {
+      this.apiKeyInput.reportValidity();
+    }
+  }
+
+  private async storeApiKey(apiKey: string): Promise<void> {
+    if (!this.cipher) return;
+    this.apiKey = apiKey;
+    const encrypted = await this.cipher.encryptText(apiKey);
+    localStorage.setItem('scribeai_api_key', JSON.stringify(encrypted));
+  }
+
+  private async loadApiKey(): Promise<void> {
+    const stored = localStorage.getItem('scribeai_api_key');
+    if (!stored || !this.cipher) return;
+    try {
+      this.apiKey = await this.cipher.decryptText(JSON.parse(stored) as EncryptedText);
+    } catch (error) {
+      console.error('Failed to decrypt API key:', error);
+      this.apiKey = '';
+    }
+  }
+
+  private loadAiServiceSettings(): void {
+    AI_STEPS.forEach(step => {
+      const saved = localStorage.getItem(`scribeai_${step}_settings`);
+      if (!saved) return;
+      try {
+        const parsed = JSON.parse(saved) as Partial<AiServiceSettings>;
+        this.aiServiceSettings[step] = {
+          provider: parsed.provider === 'openai-compatible' ? 'openai-compatible' : 'gemini',
+          geminiModel: typeof parsed.geminiModel === 'string' && parsed.geminiModel ? parsed.geminiModel : DEFAULT_GEMINI_MODEL,
+          baseUrl: typeof parsed.baseUrl === 'string' ? parsed.baseUrl : '',
+          model: typeof parsed.model === 'string' ? parsed.model : '',
+        };
+      } catch (error) {
+        console.error(`Failed to read ${step} settings:`, error);
+      }
+    });
+  }
+
+  private async storeAiServerKey(step: AiStep, key: string): Promise<void> {
+    if (!this.cipher) return;
+    this.aiServerKeys[step] = key;
+    if (!key) {
+      localStorage.removeItem(`scribeai_${step}_key`);
+      return;
+    }
+    const encrypted = await this.cipher.encryptText(key);
+    localStorage.setItem(`scribeai_${step}_key`, JSON.stringify(encrypted));
+  }
+
+  private async loadAiServerKeys(): Promise<void> {
+    if (!this.cipher) return;
+    for (const step of AI_STEPS) {
+      const stored = localStorage.getItem(`scribeai_${step}_key`);
+      if (!stored) continue;
+      try {
+        this.aiServerKeys[step] = await this.cipher.decryptText(JSON.parse(stored) as EncryptedText);
+      } catch (error) {
+        console.error(`Failed to decrypt ${step} server key:`, error);
+        this.aiServerKeys[step] = '';
+      }
+    }
+  }
+
+  private openAiServicesModal(): void {
+    AI_STEPS.forEach(step => {
+      const form = this.aiServiceForms[step];
+      const { provider, geminiModel, baseUrl, model } = this.aiServiceSettings[step];
+      form.providerSelect.value = provider;
+      this.populateGeminiModelSelect(form.geminiModelSelect, geminiModel);
+      form.baseUrlInput.value = baseUrl;
+      form.modelInput.value = model;
+      form.keyInput.value = this.aiServerKeys[step];
+    });
+    this.updateAiServicesFields();
+    this.aiServicesModal.style.display = 'flex';
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+  }
+
+  private closeAiServicesModal(): void {
+    this.aiServicesModal.style.display = 'none';
+  }
+
+  private updateAiServicesFields(): void {
+    AI_STEPS.forEach(step => {
+      const form = this.aiServiceForms[step];
+      const usesServer = form.providerSelect.value === 'openai-compatible';
+      form.geminiFields.style.display = usesServer ? 'none' : 'flex';
+      form.serverFields.style.display = usesServer ? 'flex' : 'none';
+      form.baseUrlInput.required = usesServer;
+      // Chat servers need to be told which model to run; Whisper servers usually have just one.
+      form.modelInput.required = usesServer && step === 'polishing';
+    });
+  }
+
+  private async saveAiServices(): Promise<void> {
+    for (const step of AI_STEPS) {
+      const form = this.aiServiceForms[step];
+      if (!form.baseUrlInput.reportValidity() || !form.modelInput.reportValidity()) return;
+    }
+
+    for (const step of AI_STEPS) {
+      const form = this.aiServiceForms[step];
+      this.aiServiceSettings[step] = {
+        provider: form.providerSelect.value as AiProviderID,
+        geminiModel: form.geminiModelSelect.value || DEFAULT_GEMINI_MODEL,
+        baseUrl: form.baseUrlInput.value.trim(),
+        model: form.modelInput.value.trim(),
+      };
+      localStorage.setItem(`scribeai_${step}_settings`, JSON.stringify(this.aiServiceSettings[step]));
+      await this.storeAiServerKey(step, form.keyInput.value.trim());
+    }
+    this.closeAiServicesModal();
+    this.initMoreMenu();
+    if (!this.genAI) this.initApiKey(); // Gemini may no longer need a key, or may need one now
+    if (!this.isAiReady()) return;
+    const { transcription, polishing } = this.aiServiceSettings;
+    this.setGlobalStatus(`Transcribing with ${AI_PROVIDER_NAMES[transcription.provider]}, polishing with ${AI_PROVIDER_NAMES[polishing.provider]}.`);
+  }
+
+  /** Lists the priced models, keeping `selected` as an option even if it has since left the table. */
+  private populateGeminiModelSelect(select: HTMLSelectElement, selected: string): void {
+    const models = this.pricingTable.getAll().map(entry => entry.model);
+    if (selected && !models.includes(selected)) models.push(selected);
+    select.innerHTML = '';
+    models.forEach(model => {
+      const option = document.createElement('option');
+      option.value = model;
+      option.textContent = this.pricingTable.find(model) ? model : `${model} (not priced)`;
+      select.appendChild(option);
+    });
+    select.value = selected;
+  }
+
+  private openModelPricingModal(): void {
+    this.modelPricingRows.innerHTML = '';
+    this.pricingTable.getAll().forEach(entry => this.addModelPricingRow(entry));
+    this.modelPricingModal.style.display = 'flex';
+  }
+
+  private closeModelPricingModal(): void {
+    this.modelPricingModal.style.display = 'none';
+  }
+
+  private addModelPricingRow(entry?: ModelPricing): void {
+    const row = document.createElement('tr');
+    const cell = (input: HTMLInputElement) => {
+      const td = document.createElement('td');
+      td.appendChild(input);
+      row.appendChild(td);
+    };
+    const modelInput = document.createElement('input');
+    modelInput.type = 'text';
+    modelInput.className = 'modal-text-input';
+    modelInput.required = true;
+    modelInput.placeholder = 'gemini-...';
+    modelInput.value = entry?.model ?? '';
+    modelInput.dataset.field = 'model';
+    cell(modelInput);
+    (['audioInputPerMillion', 'textInputPerMillion', 'outputPerMillion'] as const).forEach(field => {
+      const rateInput = document.createElement('input');
+      rateInput.type = 'number';
+      rateInput.className = 'modal-text-input';
+      rateInput.required = true;
+      rateInput.min = '0';
+      rateInput.step = 'any';
+      rateInput.value = entry ? String(entry[field]) : '';
+      rateInput.dataset.field = field;
+      cell(rateInput);
+    });
+    const removeCell = document.createElement('td');
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'pricing-remove-button';
+    removeButton.title = 'Remove model';
+    removeButton.innerHTML = '<i class="fas fa-trash"></i>';
+    removeButton.addEventListener('click', () => row.remove());
+    removeCell.appendChild(removeButton);
+    row.appendChild(removeCell);
+    this.modelPricingRows.appendChild(row);
+    if (!entry) modelInput.focus();
+  }
+
+  private saveModelPricing(): void {
+    const rows = Array.from(this.modelPricingRows.querySelectorAll('tr'));
+    const entries: ModelPricing[] = [];
+    for (const row of rows) {
+      const inputs = Array.from(row.querySelectorAll('input'));
+      if (!inputs.every(input => input.reportValidity())) return;
+      const value = (field: string) => inputs.find(input => input.dataset.field === field)!.value;
+      const model = value('model').trim();
+      if (entries.some(entry => entry.model === model)) {
+        alert(`"${model}" is listed twice.`);
+        return;
+      }
+      entries.push({
+        model,
+        audioInputPerMillion: Number(value('audioInputPerMillion')),
+        textInputPerMillion: Number(value('textInputPerMillion')),
+        outputPerMillion: Number(value('outputPerMillion')),
+      });
+    }
+    if (entries.length === 0) {
+      alert('Keep at least one model in the pricing table.');
+      return;
+    }
+    this.pricingTable.replace(entries);
+    // Refresh the open AI Services form, keeping whatever was picked there.
+    AI_STEPS.forEach(step => {
+      const select = this.aiServiceForms[step].geminiModelSelect;
+      this.populateGeminiModelSelect(select, select.value);
+    });
+    this.closeModelPricingModal();
+  }
+
+  private loadUsageBudget(): void {
+    const saved = localStorage.getItem('scribeai_usage_budget');
+    if (!saved) return;
+    try {
+      const parsed = JSON.parse(saved) as Partial<UsageBudget>;
+      this.usageBudget = {
+        limit: typeof parsed.limit === 'number' && parsed.limit > 0 ? parsed.limit : 0,
+        blockRecordings: parsed.blockRecordings === true,
+      };
+    } catch (error) {
+      console.error('Failed to read usage budget:', error);
+    }
+  }
+
+  private async loadUsageLedger(): Promise<void> {
+    try {
+      this.usageLedger = await this.noteStore.getUsageEntries();
+    } catch (error) {
+      console.error('Failed to load usage ledger:', error);
+      this.usageLedger = [];
+    }
+  }
+
+  /** Logs one request and warns the moment it takes this month's spend over the budget. */
+  private recordUsage(step: AiStep, modeId: ModeID, model: string, promptTokens: number, completionTokens: number, cost: number): void {
+    if (!this.currentNote) return;
+    const wasOverBudget = this.isOverBudget();
+    const entry: UsageEntry = {
+      id: `usage_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      timestamp: Date.now(),
+      noteId: this.currentNote.id,
+      step,
+      model,
+      modeId,
+      modeName: this.modes.get(modeId)?.name ?? modeId,
+      promptTokens,
+      completionTokens,
+      cost,
+    };
+    this.usageLedger.push(entry);
+    this.noteStore.addUsageEntry(entry).catch(error => console.error('Failed to record usage:', error));
+    if (this.usageModal.style.display === 'flex') this.renderUsageDashboard();
+    if (!wasOverBudget && this.isOverBudget()) {
+      const blocking = this.usageBudget.blockRecordings ? ' New recordings are blocked until next month or a higher budget.' : '';
+      this.setGlobalStatus(`Monthly budget of ${formatUsageCost(this.usageBudget.limit)} exceeded.${blocking}`, false, true);
+    }
+  }
+
+  private getMonthToDateSpend(): number {
+    return sumUsageCostSince(this.usageLedger, usagePeriodStart(Date.now(), 'month').getTime());
+  }
+
+  private isOverBudget(): boolean {
+    return this.usageBudget.limit > 0 && this.getMonthToDateSpend() > this.usageBudget.limit;
+  }
+
+  /** Called before a recording or upload starts. Returns false when the budget blocks it. */
+  private checkBudgetBeforeRecording(): boolean {
+    if (!this.isOverBudget()) return true;
+    const spent = `${formatUsageCost(this.getMonthToDateSpend())} of ${formatUsageCost(this.usageBudget.limit)}`;
+    if (this.usageBudget.blockRecordings) {
+      this.setGlobalStatus(`Monthly budget exceeded (${spent}). Raise it under Spend & Budget to record.`, false, true);
+      return false;
+    }
+    this.setGlobalStatus(`Over this month's budget: ${spent} spent.`, false, true);
+    return true;
+  }
+
+  private openGlossaryModal(): void {
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+    this.glossaryRows.innerHTML = '';
+    this.glossary.getAll().forEach(term => this.addGlossaryRow(term));
+    this.glossaryAutoCorrectToggle.checked = this.glossaryAutoCorrect;
+    this.glossaryModal.style.display = 'flex';
+  }
+
+  private closeGlossaryModal(): void {
+    this.glossaryModal.style.display = 'none';
+  }
+
+  private addGlossaryRow(entry?: GlossaryTerm): void {
+    const row = document.createElement('tr');
+    const cell = (input: HTMLElement) => {
+      const td = document.createElement('td');
+      td.appendChild(input);
+      row.appendChild(td);
+    };
+    const termInput = document.createElement('input');
+    termInput.type = 'text';
+    termInput.className = 'modal-text-input';
+    termInput.required = true;
+    termInput.placeholder = 'Metformin';
+    termInput.value = entry?.term ?? '';
+    termInput.dataset.field = 'term';
+    cell(termInput);
+    const hintInput = document.createElement('input');
+    hintInput.type = 'text';
+    hintInput.className = 'modal-text-input';
+    hintInput.placeholder = 'met-FOR-min';
+    hintInput.value = entry?.soundsLike ?? '';
+    hintInput.dataset.field = 'soundsLike';
+    cell(hintInput);
+    const modeSelect = document.createElement('select');
+    modeSelect.className = 'modal-text-input';
+    modeSelect.add(new Option('All modes', ''));
+    this.modes.getAll().forEach(mode => modeSelect.add(new Option(mode.name, mode.id)));
+    // A mode that was deleted since keeps its terms until the row is changed.
+    if (entry?.modeId && !this.modes.get(entry.modeId)) modeSelect.add(new Option('(Deleted mode)', entry.modeId));
+    modeSelect.value = entry?.modeId ?? '';
+    cell(modeSelect);
+    const removeCell = document.createElement('td');
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'pricing-remove-button';
+    removeButton.title = 'Remove term';
+    removeButton.innerHTML = '<i class="fas fa-trash"></i>';
+    removeButton.addEventListener('click', () => row.remove());
+    removeCell.appendChild(removeButton);
+    row.appendChild(removeCell);
+    this.glossaryRows.appendChild(row);
+    if (!entry) termInput.focus();
   }
 
-  private initApiKey(): void {
-    const apiKey = localStorage.getItem('gemini_api_key');
-    if (apiKey) {
-      this.initializeGenAI(apiKey);
-    } else {
-      this.apiKeyModal.style.display = 'flex';
-      this.disableAppFeatures();
-      this.setGlobalStatus('API Key required to begin', false, true);
+  private async saveGlossary(): Promise<void> {
+    if (!this.cipher) return;
+    const terms: GlossaryTerm[] = [];
+    for (const row of Array.from(this.glossaryRows.querySelectorAll('tr'))) {
+      const inputs = Array.from(row.querySelectorAll('input'));
+      if (!inputs.every(input => input.reportValidity())) return;
+      const value = (field: string) => inputs.find(input => input.dataset.field === field)!.value.trim();
+      const modeId = row.querySelector('select')!.value;
+      const term = value('term');
+      if (terms.some(existing => existing.term === term && (existing.modeId ?? '') === modeId)) {
+        alert(`"${term}" is listed twice.`);
+        return;
+      }
+      terms.push({ term, ...(value('soundsLike') ? { soundsLike: value('soundsLike') } : {}), ...(modeId ? { modeId } : {}) });
     }
-  }
-  
-  private initializeGenAI(apiKey: string): void {
     try {
-      this.genAI = new GoogleGenAI({ apiKey });
-      this.apiKeyModal.style.display = 'none';
-      this.enableAppFeatures();
-      this.setGlobalStatus('Ready to record');
-    } catch (e) {
-      console.error('Error initializing GoogleGenAI:', e);
-      this.setGlobalStatus('Failed to initialize AI.', false, true);
-      this.disableAppFeatures();
+      await this.glossary.replace(terms, this.cipher);
+    } catch (error) {
+      console.error('Failed to save glossary:', error);
+      this.setGlobalStatus('Could not save the glossary.', false, true);
+      return;
     }
+    this.glossaryAutoCorrect = this.glossaryAutoCorrectToggle.checked;
+    localStorage.setItem('scribeai_glossary_autocorrect', String(this.glossaryAutoCorrect));
+    this.closeGlossaryModal();
+    this.setGlobalStatus(`Glossary saved (${terms.length} term${terms.length === 1 ? '' : 's'}).`);
   }
 
-  private disableAppFeatures(): void {
-    this.fabRecord.disabled = true;
-    this.uploadButton.disabled = true;
-    this.bottomNavRecord.disabled = true;
-    this.bottomNavUpload.disabled = true;
+  private openUsageModal(): void {
+    this.usageBudgetInput.value = this.usageBudget.limit > 0 ? String(this.usageBudget.limit) : '';
+    this.blockOverBudgetToggle.checked = this.usageBudget.blockRecordings;
+    this.renderUsageDashboard();
+    this.usageModal.style.display = 'flex';
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
   }
 
-  private enableAppFeatures(): void {
-    this.fabRecord.disabled = false;
-    this.uploadButton.disabled = false;
-    this.bottomNavRecord.disabled = false;
-    this.bottomNavUpload.disabled = false;
+  private closeUsageModal(): void {
+    this.usageModal.style.display = 'none';
   }
-  
-  private handleSaveApiKey(): void {
-    const apiKey = this.apiKeyInput.value.trim();
-    if (apiKey) {
-      localStorage.setItem('gemini_api_key', apiKey);
-      this.initializeGenAI(apiKey);
-    } else {
-      this.apiKeyInput.reportValidity();
+
+  private renderUsageDashboard(): void {
+    const now = Date.now();
+    this.usageToday.textContent = formatUsageCost(sumUsageCostSince(this.usageLedger, usagePeriodStart(now, 'day').getTime()));
+    this.usageWeek.textContent = formatUsageCost(sumUsageCostSince(this.usageLedger, usagePeriodStart(now, 'week').getTime()));
+    const monthSpend = this.getMonthToDateSpend();
+    this.usageMonth.textContent = formatUsageCost(monthSpend);
+
+    const { limit } = this.usageBudget;
+    this.usageBudgetBar.style.display = limit > 0 ? 'block' : 'none';
+    this.usageBudgetBar.classList.toggle('over-budget', this.isOverBudget());
+    this.usageBudgetFill.style.width = limit > 0 ? `${Math.min(100, (monthSpend / limit) * 100)}%` : '0';
+    this.usageBudgetStatus.textContent = limit > 0
+      ? `${formatUsageCost(monthSpend)} of ${formatUsageCost(limit)} budget used this month.`
+      : 'No monthly budget set.';
+
+    const grouping = this.usageGroupingSelect.value as UsageGrouping;
+    const entries = grouping === 'mode'
+      ? this.usageLedger.filter(entry => entry.timestamp >= usagePeriodStart(now, 'month').getTime())
+      : this.usageLedger;
+    const totals = summarizeUsage(entries, grouping);
+    this.usageRows.innerHTML = '';
+    if (totals.length === 0) {
+      const row = this.usageRows.insertRow();
+      const cell = row.insertCell();
+      cell.colSpan = 4;
+      cell.className = 'usage-empty';
+      cell.textContent = 'No requests yet.';
+      return;
     }
+    totals.forEach(total => {
+      const row = this.usageRows.insertRow();
+      [total.label, String(total.calls), total.tokens.toLocaleString(), formatUsageCost(total.cost)].forEach(text => {
+        row.insertCell().textContent = text;
+      });
+    });
+  }
+
+  private saveUsageBudget(): void {
+    if (!this.usageBudgetInput.reportValidity()) return;
+    const limit = parseFloat(this.usageBudgetInput.value);
+    this.usageBudget = {
+      limit: limit > 0 ? limit : 0,
+      blockRecordings: this.blockOverBudgetToggle.checked,
+    };
+    localStorage.setItem('scribeai_usage_budget', JSON.stringify(this.usageBudget));
+    this.renderUsageDashboard();
+    this.updateMetadataDisplay();
+    this.setGlobalStatus(this.usageBudget.limit > 0
+      ? `Monthly budget set to ${formatUsageCost(this.usageBudget.limit)}.`
+      : 'Monthly budget removed.');
   }
 
   private handleUpdateApiKey(): void {
-    this.apiKeyInput.value = localStorage.getItem('gemini_api_key') || '';
+    this.apiKeyInput.value = this.apiKey;
     this.apiKeyModal.style.display = 'flex';
     this.closeSettingsMenu();
     this.closeMoreMenu();
@@ -669,13 +4418,13 @@ class VoiceNotesApp {
   private showSetPinScreen(): void {
     this.pinMode = 'set';
     this.pinModal.style.display = 'flex';
-    this.pinTitle.textContent = 'Create a PIN';
+    this.pinTitle.textContent = this.isChangingPin ? 'Choose a New PIN' : 'Create a PIN';
     this.pinSubtitle.textContent = 'Set a 4-digit PIN to secure your notes.';
     this.pinSubmitButton.textContent = 'Save PIN';
     this.pinSubmitButton.disabled = true;
     this.pinForgotButton.style.display = 'none';
-    this.bindPinEvents();
-    this.pinInputs[0].focus();
+    this.pinCancelButton.style.display = this.isChangingPin ? 'block' : 'none';
+    this.clearPinInputs();
   }
 
   private showEnterPinScreen(): void {
@@ -686,10 +4435,43 @@ class VoiceNotesApp {
     this.pinSubmitButton.textContent = 'Unlock';
     this.pinSubmitButton.disabled = true;
     this.pinForgotButton.style.display = 'block';
-    this.bindPinEvents();
-    this.pinInputs[0].focus();
+    this.pinCancelButton.style.display = 'none';
+    this.pinErrorMessage.style.display = 'none';
+    this.clearPinInputs();
+    this.applyPinThrottle();
+  }
+
+  private async handleChangePin(): Promise<void> {
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+    // Recording or polishing keeps writing records, which must not land under the old key mid-change.
+    if (this.isBusy()) {
+      this.setGlobalStatus('Please wait for the current process to finish.');
+      return;
+    }
+    await this.flushPolishedEdits();
+    this.pinMode = 'current';
+    this.isChangingPin = true;
+    this.changePinFailures = 0;
+    this.pinModal.style.display = 'flex';
+    this.pinTitle.textContent = 'Change PIN';
+    this.pinSubtitle.textContent = 'Enter your current PIN first.';
+    this.pinSubmitButton.textContent = 'Continue';
+    this.pinForgotButton.style.display = 'none';
+    this.pinCancelButton.style.display = 'block';
+    this.pinErrorMessage.style.display = 'none';
+    this.clearPinInputs();
+  }
+
+  private cancelChangePin(): void {
+    this.isChangingPin = false;
+    this.firstPinAttempt = '';
+    this.currentPinForChange = '';
+    this.pinErrorMessage.style.display = 'none';
+    this.pinModal.style.display = 'none';
   }
 
+  /** Legacy unsalted-in-practice hash; only used to verify and migrate old installs. */
   private async hashPin(pin: string): Promise<string> {
     const salt = 'scribeai-static-salt'; 
     const msgUint8 = new TextEncoder().encode(pin + salt);
@@ -698,6 +4480,126 @@ class VoiceNotesApp {
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
+  /** Derives the cipher for a PIN and checks it against the stored verifier. */
+  private async verifyPin(pin: string): Promise<PinCipher | null> {
+    const salt = localStorage.getItem('scribeai_pin_salt');
+    const check = localStorage.getItem('scribeai_pin_check');
+    if (salt && check) {
+      const cipher = await this.openPinCheck(pin, salt, JSON.parse(check) as EncryptedText);
+      const pending = localStorage.getItem(PIN_CHANGE_KEY);
+      return pending ? this.resumePinChange(pin, cipher, salt, JSON.parse(pending) as PendingPinChange) : cipher;
+    }
+
+    const legacyHash = localStorage.getItem('scribeai_pin_hash');
+    if (legacyHash && legacyHash === await this.hashPin(pin)) {
+      return this.migrateLegacyPin(pin);
+    }
+    return null;
+  }
+
+  private async openPinCheck(pin: string, salt: string, check: EncryptedText): Promise<PinCipher | null> {
+    const cipher = await PinCipher.fromPin(pin, base64ToBytes(salt));
+    try {
+      return await cipher.decryptText(check) === PIN_CHECK_PLAINTEXT ? cipher : null;
+    } catch {
+      return null; // AES-GCM authentication failed: wrong PIN
+    }
+  }
+
+  /**
+   * Settles a PIN change that was interrupted: entering the old PIN undoes it and entering the new PIN
+   * finishes it. Either way the other PIN is recovered from the pending change to open the moved records.
+   */
+  private async resumePinChange(pin: string, oldCipher: PinCipher | null, oldSalt: string, pending: PendingPinChange): Promise<PinCipher | null> {
+    if (oldCipher) {
+      const newPin = await oldCipher.decryptText(pending.newPin);
+      await this.completePinChange(oldCipher, await PinCipher.fromPin(newPin, base64ToBytes(pending.salt)), null);
+      return oldCipher;
+    }
+    const newCipher = await this.openPinCheck(pin, pending.salt, pending.check);
+    if (!newCipher) return null;
+    const oldPin = await newCipher.decryptText(pending.oldPin);
+    await this.completePinChange(newCipher, await PinCipher.fromPin(oldPin, base64ToBytes(oldSalt)), pending);
+    return newCipher;
+  }
+
+  /** Writes a fresh salt and verifier for a PIN and returns its cipher. */
+  private async createPinCipher(pin: string): Promise<PinCipher> {
+    const salt = PinCipher.generateSalt();
+    const cipher = await PinCipher.fromPin(pin, salt);
+    const check = await cipher.encryptText(PIN_CHECK_PLAINTEXT);
+    localStorage.setItem('scribeai_pin_salt', bytesToBase64(salt));
+    localStorage.setItem('scribeai_pin_check', JSON.stringify(check));
+    return cipher;
+  }
+
+  /** Moves an install from the static-salt hash and plaintext key to encrypted storage. */
+  private async migrateLegacyPin(pin: string): Promise<PinCipher> {
+    const cipher = await this.createPinCipher(pin);
+    this.cipher = cipher;
+    this.noteStore.setCipher(cipher);
+    await this.noteStore.rekey(cipher, cipher);
+
+    const plainApiKey = localStorage.getItem('gemini_api_key');
+    if (plainApiKey) await this.storeApiKey(plainApiKey);
+    localStorage.removeItem('gemini_api_key');
+    localStorage.removeItem('scribeai_pin_hash');
+    localStorage.removeItem('scribeai_refresh_count');
+    return cipher;
+  }
+
+  /**
+   * Records the change as pending before anything is re-encrypted, so a crash part way through never leaves
+   * data under a key that no stored PIN can derive. A failure rolls everything back to the old PIN.
+   */
+  private async changePin(oldPin: string, newPin: string): Promise<void> {
+    const oldCipher = this.cipher!;
+    const salt = PinCipher.generateSalt();
+    const newCipher = await PinCipher.fromPin(newPin, salt);
+    const pending: PendingPinChange = {
+      salt: bytesToBase64(salt),
+      check: await newCipher.encryptText(PIN_CHECK_PLAINTEXT),
+      newPin: await oldCipher.encryptText(newPin),
+      oldPin: await newCipher.encryptText(oldPin),
+    };
+    localStorage.setItem(PIN_CHANGE_KEY, JSON.stringify(pending));
+    try {
+      await this.completePinChange(newCipher, oldCipher, pending);
+    } catch (error) {
+      await this.completePinChange(oldCipher, newCipher, null);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves every record and encrypted setting from `previous` to `target`. With `promote` set, the new PIN's
+   * salt and verifier replace the old ones in the same step that drops the pending change; without it the
+   * change is being undone and the stored PIN stays as it is.
+   */
+  private async completePinChange(target: PinCipher, previous: PinCipher, promote: PendingPinChange | null): Promise<void> {
+    this.cipher = target;
+    await this.noteStore.rekey(target, previous);
+    for (const key of PIN_SEALED_SETTINGS) {
+      const stored = localStorage.getItem(key);
+      if (!stored) continue;
+      const payload = JSON.parse(stored) as EncryptedText;
+      const moved = await reencryptBytes({ iv: base64ToBytes(payload.iv), data: base64ToBytes(payload.data).buffer as ArrayBuffer }, target, previous);
+      localStorage.setItem(key, JSON.stringify({ iv: bytesToBase64(moved.iv), data: bytesToBase64(new Uint8Array(moved.data)) }));
+    }
+    if (promote) {
+      localStorage.setItem('scribeai_pin_salt', promote.salt);
+      localStorage.setItem('scribeai_pin_check', JSON.stringify(promote.check));
+    }
+    localStorage.removeItem(PIN_CHANGE_KEY);
+  }
+
+  private showPinError(message: string): void {
+    this.pinErrorMessage.textContent = message;
+    this.pinErrorMessage.style.display = 'block';
+    this.pinForm.classList.add('shake');
+    setTimeout(() => this.pinForm.classList.remove('shake'), 500);
+  }
+
   private bindPinEvents(): void {
     this.pinInputs.forEach((input, index) => {
         input.addEventListener('input', () => this.handlePinInput(index));
@@ -706,6 +4608,7 @@ class VoiceNotesApp {
     });
     this.pinSubmitButton.addEventListener('click', () => this.handlePinSubmit());
     this.pinForgotButton.addEventListener('click', () => this.handleForgotPin());
+    this.pinCancelButton.addEventListener('click', () => this.cancelChangePin());
   }
 
   private handlePinInput(index: number): void {
@@ -715,7 +4618,7 @@ class VoiceNotesApp {
         this.pinInputs[index + 1].focus();
     }
     const fullPin = this.pinInputs.map(i => i.value).join('');
-    this.pinSubmitButton.disabled = fullPin.length !== 4;
+    this.pinSubmitButton.disabled = fullPin.length !== 4 || this.arePinAttemptsBlocked();
   }
   
   private handlePinBackspace(e: KeyboardEvent, index: number): void {
@@ -742,38 +4645,64 @@ class VoiceNotesApp {
         
       case 'confirm':
         if (pin === this.firstPinAttempt) {
-            const pinHash = await this.hashPin(pin);
-            localStorage.setItem('scribeai_pin_hash', pinHash);
-            localStorage.setItem('scribeai_refresh_count', '0'); // Reset counter
-            this.unlockApp();
+            this.firstPinAttempt = '';
+            if (this.isChangingPin) {
+                this.pinSubtitle.textContent = 'Re-encrypting your notes...';
+                try {
+                    await this.changePin(this.currentPinForChange, pin);
+                    this.isChangingPin = false;
+                    this.currentPinForChange = '';
+                    this.pinModal.style.display = 'none';
+                    this.setGlobalStatus('PIN changed.');
+                } catch (error) {
+                    console.error('Failed to change PIN:', error);
+                    // The rollback failed too when the change is still pending; unlocking with either PIN settles it.
+                    this.showPinError(localStorage.getItem(PIN_CHANGE_KEY)
+                      ? 'Could not finish changing your PIN. Unlock with your old or new PIN to finish.'
+                      : 'Could not change PIN. Your old PIN still works.');
+                    this.clearPinInputs();
+                }
+            } else {
+                this.cipher = await this.createPinCipher(pin);
+                await this.unlockApp();
+            }
         } else {
-            this.pinErrorMessage.textContent = 'PINs do not match. Please try again.';
-            this.pinErrorMessage.style.display = 'block';
-            this.pinForm.classList.add('shake');
-            setTimeout(() => this.pinForm.classList.remove('shake'), 500);
-            
-            this.pinMode = 'set';
-            this.pinTitle.textContent = 'Create a PIN';
-            this.pinSubtitle.textContent = 'Set a 4-digit PIN to secure your notes.';
-            this.pinSubmitButton.textContent = 'Save PIN';
-            this.clearPinInputs();
+            this.showPinError('PINs do not match. Please try again.');
+            this.showSetPinScreen();
         }
         break;
         
-      case 'enter':
-        const storedHash = localStorage.getItem('scribeai_pin_hash');
-        const enteredHash = await this.hashPin(pin);
-        if (enteredHash === storedHash) {
-            localStorage.setItem('scribeai_refresh_count', '0'); // Reset counter
-            this.unlockApp();
+      case 'enter': {
+        if (this.applyPinThrottle()) return;
+        this.pinSubtitle.textContent = 'Unlocking...';
+        const cipher = await this.verifyPin(pin);
+        if (cipher) {
+            this.resetPinFailures();
+            this.cipher = cipher;
+            await this.unlockApp();
+        } else {
+            this.pinSubtitle.textContent = 'Enter your 4-digit PIN to unlock.';
+            this.handleWrongPin();
+        }
+        break;
+      }
+
+      case 'current': {
+        const cipher = await this.verifyPin(pin);
+        if (cipher) {
+            this.currentPinForChange = pin;
+            this.showSetPinScreen();
+        } else if (++this.changePinFailures >= PIN_CHANGE_MAX_ATTEMPTS) {
+            // Guessing from an unlocked app goes through the unlock screen and its throttle instead.
+            this.cancelChangePin();
+            await this.lockApp();
+            if (this.isLocked) this.showPinError('Too many incorrect PINs. The app was locked.');
         } else {
-            this.pinErrorMessage.textContent = 'Incorrect PIN. Please try again.';
-            this.pinErrorMessage.style.display = 'block';
-            this.pinForm.classList.add('shake');
-            setTimeout(() => this.pinForm.classList.remove('shake'), 500);
+            this.showPinError('Incorrect PIN. Please try again.');
             this.clearPinInputs();
         }
         break;
+      }
     }
   }
   
@@ -783,14 +4712,30 @@ class VoiceNotesApp {
     );
     if (confirmation) {
         localStorage.removeItem('scribeai_pin_hash');
+        localStorage.removeItem('scribeai_pin_salt');
+        localStorage.removeItem('scribeai_pin_check');
+        localStorage.removeItem(PIN_CHANGE_KEY);
         localStorage.removeItem('selectedMode');
         localStorage.removeItem('customPromptInstructions');
+        localStorage.removeItem('scribeai_user_modes');
+        localStorage.removeItem('scribeai_user_modes_backup');
         localStorage.removeItem('selectedTimezone');
         localStorage.removeItem('autoDownloadEnabled');
+        localStorage.removeItem('scribeai_auto_lap');
         localStorage.removeItem('gemini_api_key');
+        localStorage.removeItem('scribeai_api_key');
+        AI_STEPS.forEach(step => {
+          localStorage.removeItem(`scribeai_${step}_settings`);
+          localStorage.removeItem(`scribeai_${step}_key`);
+        });
         localStorage.removeItem('scribeai_refresh_count');
+        localStorage.removeItem('scribeai_idle_lock_minutes');
+        localStorage.removeItem('scribeai_hidden_lock_minutes');
+        localStorage.removeItem('scribeai_glossary');
+        localStorage.removeItem('scribeai_glossary_autocorrect');
+        this.resetPinFailures();
+        this.noteStore.clear().catch(err => console.error('Failed to clear note library:', err));
         
-        this.clearPinInputs();
         this.showSetPinScreen();
     }
   }
@@ -800,10 +4745,228 @@ class VoiceNotesApp {
     this.pinInputs[0].focus();
     this.pinSubmitButton.disabled = true;
   }
+
+  private getPinFailureCount(): number {
+    return parseInt(localStorage.getItem('scribeai_pin_failures') || '0', 10);
+  }
+
+  private getPinLockoutRemainingMs(): number {
+    const lockedUntil = parseInt(localStorage.getItem('scribeai_pin_locked_until') || '0', 10);
+    return Math.max(0, lockedUntil - Date.now());
+  }
+
+  private isPinHardLocked(): boolean {
+    return this.getPinFailureCount() >= PIN_MAX_ATTEMPTS;
+  }
+
+  private arePinAttemptsBlocked(): boolean {
+    if (this.pinMode !== 'enter') return false;
+    return this.isPinHardLocked() || this.getPinLockoutRemainingMs() > 0;
+  }
+
+  private resetPinFailures(): void {
+    localStorage.removeItem('scribeai_pin_failures');
+    localStorage.removeItem('scribeai_pin_locked_until');
+    if (this.pinThrottleTimerId) {
+      clearInterval(this.pinThrottleTimerId);
+      this.pinThrottleTimerId = null;
+    }
+    this.pinInputs.forEach(input => (input.disabled = false));
+  }
+
+  private handleWrongPin(): void {
+    // Counters live in localStorage so reloading the page does not reset them.
+    const failures = this.getPinFailureCount() + 1;
+    localStorage.setItem('scribeai_pin_failures', String(failures));
+    if (failures >= PIN_FREE_ATTEMPTS && failures < PIN_MAX_ATTEMPTS) {
+      const delay = PIN_BASE_DELAY_MS * Math.pow(2, failures - PIN_FREE_ATTEMPTS);
+      localStorage.setItem('scribeai_pin_locked_until', String(Date.now() + delay));
+    }
+
+    this.showPinError('Incorrect PIN. Please try again.');
+    this.clearPinInputs();
+    this.applyPinThrottle();
+  }
+
+  /**
+   * Disables PIN entry while a throttle delay or hard lockout is active and
+   * keeps a countdown in the error line. Returns true when entry is blocked.
+   */
+  private applyPinThrottle(): boolean {
+    if (this.pinThrottleTimerId) {
+      clearInterval(this.pinThrottleTimerId);
+      this.pinThrottleTimerId = null;
+    }
+    const blocked = this.arePinAttemptsBlocked();
+    this.pinInputs.forEach(input => (input.disabled = blocked));
+    if (!blocked) return false;
+
+    this.pinSubmitButton.disabled = true;
+    const update = () => {
+      if (this.isPinHardLocked()) {
+        this.pinErrorMessage.textContent = 'Too many incorrect attempts. Use Forgot PIN to reset the app.';
+        this.pinErrorMessage.style.display = 'block';
+        return;
+      }
+      const remaining = this.getPinLockoutRemainingMs();
+      if (remaining <= 0) {
+        if (this.pinThrottleTimerId) clearInterval(this.pinThrottleTimerId);
+        this.pinThrottleTimerId = null;
+        this.pinInputs.forEach(input => (input.disabled = false));
+        this.pinErrorMessage.style.display = 'none';
+        this.clearPinInputs();
+        return;
+      }
+      this.pinErrorMessage.textContent = `Too many incorrect attempts. Try again in ${this.formatDuration(remaining + 999)}.`;
+      this.pinErrorMessage.style.display = 'block';
+    };
+    update();
+    if (!this.isPinHardLocked()) {
+      this.pinThrottleTimerId = window.setInterval(update, 1000);
+    }
+    return true;
+  }
   
-  private unlockApp(): void {
+  private async unlockApp(): Promise<void> {
+    this.noteStore.setCipher(this.cipher);
+    await this.loadApiKey();
+    await this.loadAiServerKeys();
+    await this.loadUsageLedger();
+    if (this.cipher) await this.glossary.load(this.cipher);
     this.pinModal.style.display = 'none';
-    this.initializeApp();
+    this.isLocked = false;
+    this.lastActivityTime = Date.now();
+
+    if (!this.isAppInitialized) {
+      this.isAppInitialized = true;
+      this.initializeApp();
+      return;
+    }
+    // Returning from an auto-lock: restore the AI client and the note that was open.
+    this.initApiKey();
+    if (this.lockedNoteId) {
+      await this.loadNoteFromLibrary(this.lockedNoteId);
+      this.lockedNoteId = null;
+    }
+  }
+
+  private initAutoLock(): void {
+    const readMinutes = (key: string, fallback: number) => {
+      const saved = localStorage.getItem(key);
+      const value = saved === null ? fallback : parseInt(saved, 10);
+      return AUTO_LOCK_OPTIONS.includes(value) ? value : fallback;
+    };
+    this.idleLockMinutes = readMinutes('scribeai_idle_lock_minutes', DEFAULT_IDLE_LOCK_MINUTES);
+    this.hiddenLockMinutes = readMinutes('scribeai_hidden_lock_minutes', DEFAULT_HIDDEN_LOCK_MINUTES);
+
+    [this.idleLockSelect, this.hiddenLockSelect].forEach(select => {
+      select.innerHTML = '';
+      AUTO_LOCK_OPTIONS.forEach(minutes => {
+        const option = document.createElement('option');
+        option.value = String(minutes);
+        option.textContent = this.formatLockMinutes(minutes);
+        select.appendChild(option);
+      });
+    });
+    this.idleLockSelect.value = String(this.idleLockMinutes);
+    this.hiddenLockSelect.value = String(this.hiddenLockMinutes);
+
+    const recordActivity = () => { this.lastActivityTime = Date.now(); };
+    ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'].forEach(eventName => {
+      document.addEventListener(eventName, recordActivity, { passive: true });
+    });
+    document.addEventListener('visibilitychange', () => this.handleVisibilityChange());
+    window.setInterval(() => this.checkIdleLock(), 10000);
+  }
+
+  private formatLockMinutes(minutes: number): string {
+    return minutes === 0 ? 'Never' : `${minutes} min`;
+  }
+
+  private handleAutoLockChange(): void {
+    this.idleLockMinutes = parseInt(this.idleLockSelect.value, 10);
+    this.hiddenLockMinutes = parseInt(this.hiddenLockSelect.value, 10);
+    localStorage.setItem('scribeai_idle_lock_minutes', String(this.idleLockMinutes));
+    localStorage.setItem('scribeai_hidden_lock_minutes', String(this.hiddenLockMinutes));
+    this.initMoreMenu(); // Re-init to update the state labels
+  }
+
+  private cycleAutoLockFromMenu(kind: 'idle' | 'hidden'): void {
+    const select = kind === 'idle' ? this.idleLockSelect : this.hiddenLockSelect;
+    const index = AUTO_LOCK_OPTIONS.indexOf(parseInt(select.value, 10));
+    select.value = String(AUTO_LOCK_OPTIONS[(index + 1) % AUTO_LOCK_OPTIONS.length]);
+    this.handleAutoLockChange();
+  }
+
+  private isBusy(): boolean {
+    return this.isRecording || this.isProcessing;
+  }
+
+  /** Runs every few seconds, so a tab left hidden is locked on time rather than when it is shown again. */
+  private checkIdleLock(): void {
+    if (this.isLocked) return;
+    const now = Date.now();
+    if (this.isBusy()) {
+      // A running session counts as activity; locking mid-recording would lose audio.
+      this.lastActivityTime = now;
+      if (this.hiddenSince) this.hiddenSince = now;
+      return;
+    }
+    const idleExpired = this.idleLockMinutes > 0 && now - this.lastActivityTime >= this.idleLockMinutes * 60000;
+    const hiddenExpired = this.hiddenSince > 0 && this.hiddenLockMinutes > 0 && now - this.hiddenSince >= this.hiddenLockMinutes * 60000;
+    if (idleExpired || hiddenExpired) {
+      this.lockApp();
+    }
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState === 'hidden') {
+      this.hiddenSince = Date.now();
+      return;
+    }
+    const hiddenFor = this.hiddenSince ? Date.now() - this.hiddenSince : 0;
+    this.hiddenSince = 0;
+    this.lastActivityTime = Date.now();
+    if (!this.isLocked && !this.isBusy() && this.hiddenLockMinutes > 0 && hiddenFor >= this.hiddenLockMinutes * 60000) {
+      this.lockApp();
+    }
+  }
+
+  /**
+   * Saves the open note, then drops the key, API client and all note content
+   * from memory until the PIN is entered again.
+   */
+  private async lockApp(): Promise<void> {
+    if (this.isLocked || this.isBusy()) return;
+    this.isLocked = true;
+    this.isChangingPin = false;
+
+    this.commitUserVersion();
+    await this.saveCurrentNote();
+    const note = this.currentNote;
+    this.lockedNoteId = note && (note.rawTranscription.trim() || note.polishedNote.trim()) ? note.id : null;
+
+    document.querySelectorAll<HTMLDivElement>('.modal-overlay').forEach(modal => {
+      if (modal !== this.pinModal) modal.style.display = 'none';
+    });
+    this.closeDeidentifyModal();
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+    this.closeModeList();
+    this.createNewNote();
+    this.libraryList.innerHTML = '';
+    this.apiKeyInput.value = '';
+
+    this.cipher = null;
+    this.noteStore.setCipher(null);
+    this.apiKey = '';
+    this.aiServerKeys = { transcription: '', polishing: '' };
+    this.usageLedger = [];
+    this.glossary.clear();
+    this.genAI = null;
+    this.disableAppFeatures();
+    this.setGlobalStatus('Locked');
+    this.showEnterPinScreen();
   }
 
   private bindEventListeners(): void {
@@ -813,9 +4976,11 @@ class VoiceNotesApp {
     this.uploadButton.addEventListener('click', () => this.triggerFileUpload());
     this.downloadAudioButton.addEventListener('click', () => this.downloadFullAudio());
     this.downloadNoteButton.addEventListener('click', () => this.downloadPolishedNote());
+    this.downloadFhirButton.addEventListener('click', () => this.downloadFhirBundle());
     this.themeToggleButton.addEventListener('click', () => this.toggleTheme());
     this.copyButton.addEventListener('click', () => this.copyPolishedNote());
     this.copyMetaButton.addEventListener('click', () => this.copyMetadata());
+    this.libraryButton.addEventListener('click', () => this.openLibrary());
     this.settingsButton.addEventListener('click', (e) => {
         e.stopPropagation();
         this.toggleSettingsMenu();
@@ -837,11 +5002,20 @@ class VoiceNotesApp {
     this.audioUploadInput.addEventListener('change', (e) => this.handleFileUpload(e));
     this.copyRawButton.addEventListener('click', () => this.copyRawTranscription());
     
-    this.editCustomPromptButton.addEventListener('click', () => this.openCustomPromptModal());
+    this.editCustomPromptButton.addEventListener('click', () => this.openCustomPromptModal(this.currentModeId));
+    this.manageModesButton.addEventListener('click', () => this.openModeManager());
+    this.newModeButton.addEventListener('click', () => this.openCustomPromptModal(null));
+    this.modeManagerCloseButton.addEventListener('click', () => this.closeModeManager());
+    this.exportModesButton.addEventListener('click', () => this.exportModePack());
+    this.importModesButton.addEventListener('click', () => this.modePackInput.click());
+    this.modePackInput.addEventListener('change', (e) => this.handleModePackUpload(e));
+    this.modeImportConfirmButton.addEventListener('click', () => this.confirmModeImport());
+    this.modeImportCancelButton.addEventListener('click', () => this.closeModeImport());
     this.saveCustomPromptButton.addEventListener('click', () => this.saveCustomPrompt());
     this.cancelCustomPromptButton.addEventListener('click', () => this.closeCustomPromptModal());
     this.infoModalCloseButton.addEventListener('click', () => this.closeInfoModal());
     this.timezoneModalCloseButton.addEventListener('click', () => this.closeTimezoneModal());
+    this.libraryModalCloseButton.addEventListener('click', () => this.closeLibrary());
 
     this.modeSelectorButton.addEventListener('click', (e) => {
         e.stopPropagation();
@@ -854,10 +5028,95 @@ class VoiceNotesApp {
     });
 
     this.autoDownloadToggle.addEventListener('change', () => this.handleAutoDownloadToggle());
+    this.autoLapToggle.addEventListener('change', () => this.handleAutoLapToggle());
 
     // API Key Listeners
     this.saveApiKeyButton.addEventListener('click', () => this.handleSaveApiKey());
+    this.apiKeyAiServicesButton.addEventListener('click', () => {
+      this.apiKeyModal.style.display = 'none';
+      this.openAiServicesModal();
+    });
     this.updateApiKeyButton.addEventListener('click', () => this.handleUpdateApiKey());
+    this.aiServicesButton.addEventListener('click', () => this.openAiServicesModal());
+    AI_STEPS.forEach(step => {
+      this.aiServiceForms[step].providerSelect.addEventListener('change', () => this.updateAiServicesFields());
+    });
+    this.saveAiServicesButton.addEventListener('click', () => this.saveAiServices());
+    this.cancelAiServicesButton.addEventListener('click', () => {
+      this.closeAiServicesModal();
+      if (!this.genAI) this.initApiKey(); // Still set up for Gemini without a key: ask for it again
+    });
+    this.editModelPricingButton.addEventListener('click', () => this.openModelPricingModal());
+    this.addModelPricingRowButton.addEventListener('click', () => this.addModelPricingRow());
+    this.saveModelPricingButton.addEventListener('click', () => this.saveModelPricing());
+    this.cancelModelPricingButton.addEventListener('click', () => this.closeModelPricingModal());
+    this.glossaryButton.addEventListener('click', () => this.openGlossaryModal());
+    this.addGlossaryRowButton.addEventListener('click', () => this.addGlossaryRow());
+    this.saveGlossaryButton.addEventListener('click', () => this.saveGlossary());
+    this.cancelGlossaryButton.addEventListener('click', () => this.closeGlossaryModal());
+    this.usageButton.addEventListener('click', () => this.openUsageModal());
+    this.metaCost.addEventListener('click', () => this.openUsageModal());
+    this.usageGroupingSelect.addEventListener('change', () => this.renderUsageDashboard());
+    this.saveUsageBudgetButton.addEventListener('click', () => this.saveUsageBudget());
+    this.closeUsageButton.addEventListener('click', () => this.closeUsageModal());
+
+    // Session audio player
+    this.audioPlayerToggle.addEventListener('click', () => this.togglePlayback());
+    this.audioPlayerSeek.addEventListener('input', () => {
+      this.isSeekDragging = true;
+      this.audioPlayerTime.textContent = `${this.formatDuration(Number(this.audioPlayerSeek.value))} / ${this.formatDuration(this.playbackDurationMs)}`;
+    });
+    this.audioPlayerSeek.addEventListener('change', () => {
+      this.isSeekDragging = false;
+      this.seekPlayback(Number(this.audioPlayerSeek.value), !this.playbackAudio.paused);
+    });
+    this.playbackAudio.addEventListener('timeupdate', () => this.handlePlaybackProgress());
+    this.playbackAudio.addEventListener('ended', () => this.handlePlaybackPartEnded());
+    this.playbackAudio.addEventListener('play', () => this.updatePlaybackToggle());
+    this.playbackAudio.addEventListener('pause', () => this.updatePlaybackToggle());
+
+    // Polished note editor
+    this.polishedNote.addEventListener('input', () => this.handlePolishedInput('rendered'));
+    this.polishedSource.addEventListener('input', () => this.handlePolishedInput('source'));
+    this.polishedNote.addEventListener('keydown', (e) => this.handleEditorShortcut(e));
+    this.polishedSource.addEventListener('keydown', (e) => this.handleEditorShortcut(e));
+    this.undoEditButton.addEventListener('click', () => this.undoPolishedEdit());
+    this.redoEditButton.addEventListener('click', () => this.redoPolishedEdit());
+    this.toggleSourceButton.addEventListener('click', () => this.toggleSourceView());
+    this.renditionSelect.addEventListener('change', () => this.switchRendition(this.renditionSelect.value));
+    this.repolishButton.addEventListener('click', () => this.openRepolishModal());
+    this.confirmRepolishButton.addEventListener('click', () => this.repolishNote());
+    this.cancelRepolishButton.addEventListener('click', () => this.closeRepolishModal());
+    this.polishedNote.addEventListener('blur', () => this.handleEditorBlur());
+    this.polishedSource.addEventListener('blur', () => this.handleEditorBlur());
+    this.historyButton.addEventListener('click', () => this.openHistoryModal());
+    this.historyCompareSelect.addEventListener('change', () => this.renderVersionHistory());
+    this.restoreVersionButton.addEventListener('click', () => this.restoreVersion());
+    this.closeHistoryButton.addEventListener('click', () => this.closeHistoryModal());
+    this.refineButton.addEventListener('click', () => this.refinePolishedNote());
+    this.refineInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey && !e.isComposing) {
+        e.preventDefault();
+        this.refinePolishedNote();
+      }
+    });
+    this.deidentifyViewSelect.addEventListener('change', () => this.renderDeidentifyPreview());
+    this.copyDeidentifiedButton.addEventListener('click', () => this.copyDeidentifiedNote());
+    this.downloadDeidentifiedButton.addEventListener('click', () => this.downloadDeidentifiedNote());
+    this.downloadRedactionReportButton.addEventListener('click', () => this.downloadRedactionReport());
+    this.closeDeidentifyButton.addEventListener('click', () => this.closeDeidentifyModal());
+    window.addEventListener('beforeunload', (e) => {
+      if (!this.hasUnsavedEdits) return;
+      e.preventDefault();
+      e.returnValue = '';
+    });
+    this.changePinButton.addEventListener('click', () => this.handleChangePin());
+    this.lockNowButton.addEventListener('click', () => {
+        this.closeSettingsMenu();
+        this.lockApp();
+    });
+    this.idleLockSelect.addEventListener('change', () => this.handleAutoLockChange());
+    this.hiddenLockSelect.addEventListener('change', () => this.handleAutoLockChange());
     this.toggleApiKeyVisibilityButton.addEventListener('click', () => this.toggleApiKeyVisibility());
 
     document.addEventListener('click', (e) => this.handleDocumentClick(e));
@@ -874,6 +5133,17 @@ class VoiceNotesApp {
       this.autoDownloadEnabled = this.autoDownloadToggle.checked;
       localStorage.setItem('autoDownloadEnabled', String(this.autoDownloadEnabled));
   }
+
+  private initAutoLap(): void {
+    this.autoLapEnabled = localStorage.getItem('scribeai_auto_lap') === 'true';
+    this.autoLapToggle.checked = this.autoLapEnabled;
+  }
+
+  private handleAutoLapToggle(): void {
+    this.autoLapEnabled = this.autoLapToggle.checked;
+    localStorage.setItem('scribeai_auto_lap', String(this.autoLapEnabled));
+    this.silenceStartedAt = 0;
+  }
   
   private initTabs(): void {
     this.tabButtons.forEach(button => {
@@ -907,9 +5177,7 @@ class VoiceNotesApp {
 
   private initCustomModeSelector(): void {
     this.modeList.innerHTML = ''; // Clear existing
-    for (const key in MODES) {
-        const mode = MODES[key as ModeID];
-        
+    for (const mode of this.modes.getAll()) {
         const wrapper = document.createElement('div');
         wrapper.className = 'mode-option-wrapper';
 
@@ -936,6 +5204,16 @@ class VoiceNotesApp {
         wrapper.appendChild(infoButton);
         this.modeList.appendChild(wrapper);
     }
+
+    const manageButton = document.createElement('button');
+    manageButton.className = 'mode-option mode-manage-option';
+    manageButton.innerHTML = '<i class="fas fa-sliders-h"></i> Manage modes...';
+    manageButton.addEventListener('click', () => {
+        this.closeModeList();
+        this.openModeManager();
+    });
+    this.modeList.appendChild(manageButton);
+    this.updateModeDisplay();
   }
 
   private initTimezoneSelector(): void {
@@ -1072,8 +5350,11 @@ class VoiceNotesApp {
   }
 
   private showInfoModal(mode: Mode): void {
-    this.infoModalTitle.textContent = mode.name;
-    this.infoModalContent.innerHTML = `<pre>${mode.instructions}</pre>`;
+    this.infoModalTitle.textContent = mode.builtIn ? mode.name : `${mode.name} (v${mode.version})`;
+    const pre = document.createElement('pre');
+    pre.textContent = promptInstructions(mode); // User-written instructions must not be parsed as HTML
+    this.infoModalContent.innerHTML = '';
+    this.infoModalContent.appendChild(pre);
     this.infoModal.style.display = 'flex';
   }
 
@@ -1090,8 +5371,8 @@ class VoiceNotesApp {
   }
 
   private loadAndSetInitialMode(): void {
-    const savedMode = localStorage.getItem('selectedMode') as ModeID;
-    if (savedMode && MODES[savedMode]) {
+    const savedMode = localStorage.getItem('selectedMode');
+    if (savedMode && this.modes.get(savedMode)) {
       this.currentModeId = savedMode;
     } else {
       this.currentModeId = 'doctor'; // Default mode
@@ -1101,7 +5382,7 @@ class VoiceNotesApp {
   }
   
   private updateModeDisplay(): void {
-    const currentMode = MODES[this.currentModeId];
+    const currentMode = this.modes.get(this.currentModeId);
     if (currentMode) {
         this.currentModeNameSpan.textContent = currentMode.name;
     }
@@ -1117,57 +5398,305 @@ class VoiceNotesApp {
     });
   }
 
-  private handleModeChange(newModeId: ModeID): void {
-    this.currentModeId = newModeId;
-    localStorage.setItem('selectedMode', this.currentModeId);
-    this.updateModeDisplay();
-    if(this.currentNote) {
-        this.currentNote.modeId = newModeId;
-        this.updateMetadataDisplay();
-    }
-    this.updateCustomPromptButtonVisibility();
-    this.initMoreMenu(); // Re-init to show/hide custom prompt option
+  private handleModeChange(newModeId: ModeID): void {
+    this.currentModeId = newModeId;
+    localStorage.setItem('selectedMode', this.currentModeId);
+    this.updateModeDisplay();
+    if(this.currentNote) {
+        this.currentNote.modeId = newModeId;
+        this.updateMetadataDisplay();
+        this.saveCurrentNote();
+    }
+    this.updateCustomPromptButtonVisibility();
+    this.initMoreMenu(); // Re-init to show/hide custom prompt option
+  }
+
+  private updateCustomPromptButtonVisibility(): void {
+    if (this.modes.isUserMode(this.currentModeId)) {
+        this.customPromptSettingsItem.style.display = 'block';
+    } else {
+        this.customPromptSettingsItem.style.display = 'none';
+    }
+  }
+
+  /** Opens the mode editor for an existing user mode, or for a new one when `modeId` is null. */
+  private openCustomPromptModal(modeId: ModeID | null): void {
+    const mode = modeId ? this.modes.get(modeId) : undefined;
+    if (mode && mode.builtIn) return;
+    this.editingModeId = mode ? mode.id : null;
+    this.customPromptTitle.textContent = mode ? 'Edit Mode' : 'New Mode';
+    this.customModeNameInput.value = mode ? mode.name : '';
+    this.customPromptTextarea.value = mode ? mode.instructions : DEFAULT_CUSTOM_INSTRUCTIONS;
+    this.customPromptModal.style.display = 'flex';
+    this.closeSettingsMenu();
+    (mode ? this.customPromptTextarea : this.customModeNameInput).focus();
+  }
+
+  private closeCustomPromptModal(): void {
+    this.customPromptModal.style.display = 'none';
+    this.editingModeId = null;
+  }
+
+  private saveCustomPrompt(): void {
+    const name = this.customModeNameInput.value.trim();
+    const newPrompt = this.customPromptTextarea.value.trim();
+    if (!name) {
+      this.customModeNameInput.reportValidity();
+      return;
+    }
+    if (!newPrompt) {
+      this.customPromptTextarea.placeholder = 'Prompt cannot be empty. Please enter your instructions.';
+      return;
+    }
+
+    if (this.editingModeId) {
+      this.modes.update(this.editingModeId, { name, instructions: newPrompt });
+    } else {
+      const mode = this.modes.create(name, newPrompt);
+      this.handleModeChange(mode.id);
+    }
+    this.closeCustomPromptModal();
+    this.refreshModeViews();
+  }
+
+  private refreshModeViews(): void {
+    this.initCustomModeSelector();
+    this.updateMetadataDisplay();
+    this.updateCustomPromptButtonVisibility();
+    this.initMoreMenu();
+    if (this.modeManagerModal.style.display !== 'none') {
+      this.renderModeManager();
+    }
+  }
+
+  private openModeManager(): void {
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+    this.modeManagerModal.style.display = 'flex';
+    this.renderModeManager();
+  }
+
+  private closeModeManager(): void {
+    this.modeManagerModal.style.display = 'none';
+  }
+
+  private renderModeManager(): void {
+    this.modeManagerList.innerHTML = '';
+    const userModes = this.modes.getUserModes();
+
+    this.modes.getAll().forEach(mode => {
+      const item = document.createElement('div');
+      item.className = 'library-item';
+      if (mode.id === this.currentModeId) item.classList.add('active');
+
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.className = 'mode-export-checkbox';
+      checkbox.title = 'Select for export';
+      checkbox.checked = this.selectedExportModeIds.has(mode.id);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) this.selectedExportModeIds.add(mode.id);
+        else this.selectedExportModeIds.delete(mode.id);
+        this.updateExportModesButton();
+      });
+
+      const info = document.createElement('div');
+      info.className = 'library-item-info';
+      const title = document.createElement('div');
+      title.className = 'library-item-title';
+      title.textContent = mode.name;
+      const meta = document.createElement('div');
+      meta.className = 'library-item-meta';
+      meta.textContent = mode.builtIn ? 'Built-in' : `Version ${mode.version}`;
+      info.appendChild(title);
+      info.appendChild(meta);
+
+      const actions = document.createElement('div');
+      actions.className = 'library-item-actions';
+      const makeAction = (icon: string, label: string, handler: () => void, disabled = false) => {
+        const button = document.createElement('button');
+        button.className = 'mode-info-button';
+        button.title = label;
+        button.disabled = disabled;
+        button.innerHTML = `<i class="fas ${icon}"></i>`;
+        button.addEventListener('click', (e) => {
+          e.stopPropagation();
+          handler();
+        });
+        actions.appendChild(button);
+      };
+
+      makeAction('fa-clone', 'Clone', () => {
+        this.modes.clone(mode.id);
+        this.refreshModeViews();
+      });
+      if (!mode.builtIn) {
+        const index = userModes.findIndex(m => m.id === mode.id);
+        makeAction('fa-arrow-up', 'Move up', () => {
+          this.modes.move(mode.id, -1);
+          this.refreshModeViews();
+        }, index === 0);
+        makeAction('fa-arrow-down', 'Move down', () => {
+          this.modes.move(mode.id, 1);
+          this.refreshModeViews();
+        }, index === userModes.length - 1);
+        makeAction('fa-pencil-alt', 'Rename or edit instructions', () => this.openCustomPromptModal(mode.id));
+        makeAction('fa-trash', 'Delete', () => this.deleteUserMode(mode));
+      }
+
+      item.appendChild(checkbox);
+      item.appendChild(info);
+      item.appendChild(actions);
+      this.modeManagerList.appendChild(item);
+    });
+    this.updateExportModesButton();
+  }
+
+  private updateExportModesButton(): void {
+    // Drop selections for modes that no longer exist
+    this.selectedExportModeIds.forEach(id => {
+      if (!this.modes.get(id)) this.selectedExportModeIds.delete(id);
+    });
+    const count = this.selectedExportModeIds.size;
+    this.exportModesButton.textContent = count > 0 ? `Export (${count})` : 'Export All';
+    this.exportModesButton.disabled = count === 0 && this.modes.getUserModes().length === 0;
   }
 
-  private loadCustomPrompt(): void {
-    const savedPrompt = localStorage.getItem('customPromptInstructions');
-    // A helpful default prompt for first-time users.
-    this.customPromptInstructions = savedPrompt || `You are a helpful assistant. Please follow these instructions:
-- Summarize the text into three bullet points.
-- Identify any questions asked within the text.
-- List all action items clearly using markdown checkboxes.`;
-    MODES.custom.instructions = this.customPromptInstructions;
+  /** Exports the selected modes, or every user mode when nothing is selected. */
+  private exportModePack(): void {
+    const modes = this.selectedExportModeIds.size > 0
+      ? this.modes.getAll().filter(mode => this.selectedExportModeIds.has(mode.id))
+      : this.modes.getUserModes();
+    if (modes.length === 0) return;
+
+    const pack = buildModePack(modes);
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+    const timestamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const filename = `scribeai-modes-${timestamp}.json`;
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
   }
 
-  private updateCustomPromptButtonVisibility(): void {
-    if (this.currentModeId === 'custom') {
-        this.customPromptSettingsItem.style.display = 'block';
-    } else {
-        this.customPromptSettingsItem.style.display = 'none';
+  private async handleModePackUpload(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Reset for next selection
+    if (!file) return;
+
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The file is not valid JSON.');
+      }
+      const pack = parseModePack(data);
+      // Name clashes default to keeping both; the preview lets the user choose otherwise.
+      this.pendingModeImport = pack.modes.map(entry => ({ entry, action: 'rename' as ModeImportAction }));
+      this.openModeImport(pack);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      alert(`Could not import modes: ${message}`);
     }
   }
 
-  private openCustomPromptModal(): void {
-    this.customPromptTextarea.value = this.customPromptInstructions;
-    this.customPromptModal.style.display = 'flex';
-    this.customPromptTextarea.focus();
+  private openModeImport(pack: ModePack): void {
+    const exported = pack.exportedAt ? ` exported ${new Date(pack.exportedAt).toLocaleDateString()}` : '';
+    this.modeImportSummary.textContent =
+      `${pack.modes.length} mode${pack.modes.length === 1 ? '' : 's'}${exported}. Review the instructions before installing.`;
+    this.modeImportList.innerHTML = '';
+
+    this.pendingModeImport.forEach(item => {
+      const { entry } = item;
+      const clash = this.modes.findByName(entry.name);
+
+      const row = document.createElement('div');
+      row.className = 'mode-import-item';
+
+      const header = document.createElement('div');
+      header.className = 'mode-import-header';
+      const title = document.createElement('div');
+      title.className = 'library-item-title';
+      title.textContent = `${entry.name} (v${entry.metadata.version})`;
+      header.appendChild(title);
+
+      if (clash) {
+        const select = document.createElement('select');
+        select.className = 'settings-select';
+        const options: [ModeImportAction, string][] = [
+          ['rename', `Keep both (as "${this.modes.uniqueName(entry.name)}")`],
+          ['skip', 'Skip'],
+        ];
+        if (!clash.builtIn) options.splice(1, 0, ['replace', `Replace "${clash.name}"`]);
+        options.forEach(([value, label]) => {
+          const option = document.createElement('option');
+          option.value = value;
+          option.textContent = label;
+          select.appendChild(option);
+        });
+        select.value = item.action;
+        select.addEventListener('change', () => {
+          item.action = select.value as ModeImportAction;
+        });
+        header.appendChild(select);
+      }
+
+      const details = document.createElement('details');
+      const summary = document.createElement('summary');
+      summary.textContent = clash ? 'A mode with this name already exists. Preview instructions' : 'Preview instructions';
+      const pre = document.createElement('pre');
+      pre.textContent = entry.instructions;
+      details.appendChild(summary);
+      details.appendChild(pre);
+
+      row.appendChild(header);
+      row.appendChild(details);
+      this.modeImportList.appendChild(row);
+    });
+
+    this.modeImportModal.style.display = 'flex';
   }
 
-  private closeCustomPromptModal(): void {
-    this.customPromptModal.style.display = 'none';
+  private closeModeImport(): void {
+    this.modeImportModal.style.display = 'none';
+    this.pendingModeImport = [];
   }
 
-  private saveCustomPrompt(): void {
-    const newPrompt = this.customPromptTextarea.value.trim();
-    if (newPrompt) {
-      this.customPromptInstructions = newPrompt;
-      MODES.custom.instructions = newPrompt;
-      localStorage.setItem('customPromptInstructions', newPrompt);
-      this.closeCustomPromptModal();
-    } else {
-      // Optional: show an error message that prompt can't be empty
-      this.customPromptTextarea.placeholder = 'Prompt cannot be empty. Please enter your instructions.';
+  private confirmModeImport(): void {
+    let installed = 0;
+    this.pendingModeImport.forEach(({ entry, action }) => {
+      if (action === 'skip') return;
+      const clash = this.modes.findByName(entry.name);
+      if (action === 'replace' && clash && !clash.builtIn) {
+        this.modes.update(clash.id, { instructions: entry.instructions, version: entry.metadata.version });
+      } else {
+        this.modes.create(entry.name, entry.instructions, entry.metadata.version);
+      }
+      installed++;
+    });
+    this.closeModeImport();
+    this.refreshModeViews();
+    this.setGlobalStatus(`Installed ${installed} mode${installed === 1 ? '' : 's'}.`);
+  }
+
+  private deleteUserMode(mode: Mode): void {
+    if (!confirm(`Delete the mode "${mode.name}"? Notes made with it keep a copy of its instructions.`)) return;
+    this.modes.remove(mode.id);
+    if (this.currentModeId === mode.id) {
+      this.handleModeChange('doctor');
     }
+    this.refreshModeViews();
+  }
+
+  /** Falls back to the mode snapshot stored on the note when the mode itself was deleted. */
+  private getModeName(note: Note): string {
+    return this.modes.get(note.modeId)?.name || note.modeRef?.name || note.modeId;
   }
 
   private handleResize(): void {
@@ -1229,6 +5758,12 @@ class VoiceNotesApp {
     this.initMoreMenu(); // Re-init to update the checkmark
   }
 
+  private handleAutoLapFromMenu(): void {
+    this.autoLapToggle.checked = !this.autoLapEnabled;
+    this.handleAutoLapToggle();
+    this.initMoreMenu();
+  }
+
   private initMoreMenu(): void {
     this.moreMenuList.innerHTML = '';
     
@@ -1240,14 +5775,28 @@ class VoiceNotesApp {
         state?: string;
         condition?: boolean;
     })[] = [
+        { id: 'library', icon: 'fa-folder-open', text: 'Note Library', action: () => this.openLibrary(), condition: true },
         { id: 'copy', icon: 'fa-copy', text: 'Copy Polished Note', action: () => this.copyPolishedNote(), condition: true },
         { id: 'downloadAudio', icon: 'fa-file-audio', text: 'Download Audio', action: () => this.downloadFullAudio(), condition: true },
         { id: 'download', icon: 'fa-download', text: 'Download Note', action: () => this.downloadPolishedNote(), condition: true },
+        { id: 'repolish', icon: 'fa-sync-alt', text: 'Re-polish in Another Mode', action: () => this.openRepolishModal(), condition: !!this.currentNote?.rawTranscription.trim() },
+        { id: 'history', icon: 'fa-history', text: 'Version History', action: () => this.openHistoryModal(), condition: !!this.currentNote?.polishedNote.trim() },
+        { id: 'deidentify', icon: 'fa-user-secret', text: 'De-identify for Sharing', action: () => this.openDeidentifyModal(), condition: !!this.currentNote?.polishedNote.trim() || !!this.currentNote?.rawTranscription.trim() },
+        { id: 'downloadFhir', icon: 'fa-notes-medical', text: 'Export FHIR Bundle', action: () => this.downloadFhirBundle(), condition: !!this.currentNote?.clinicalNote },
         { id: 'copyMeta', icon: 'fa-clipboard', text: 'Copy Metadata', action: () => this.copyMetadata(), condition: true },
         { id: 'updateKey', icon: 'fa-key', text: 'Update API Key', action: () => this.handleUpdateApiKey(), condition: true },
+        { id: 'aiServices', icon: 'fa-server', text: 'AI Services', action: () => this.openAiServicesModal(), condition: true },
+        { id: 'glossary', icon: 'fa-spell-check', text: 'Glossary', action: () => this.openGlossaryModal(), condition: true },
+        { id: 'usage', icon: 'fa-chart-line', text: 'Spend & Budget', action: () => this.openUsageModal(), condition: true },
+        { id: 'changePin', icon: 'fa-lock', text: 'Change PIN', action: () => this.handleChangePin(), condition: true },
+        { id: 'lockNow', icon: 'fa-user-lock', text: 'Lock Now', action: () => this.lockApp(), condition: true },
+        { id: 'idleLock', icon: 'fa-user-clock', text: 'Auto-lock', action: () => this.cycleAutoLockFromMenu('idle'), state: this.formatLockMinutes(this.idleLockMinutes), condition: true },
+        { id: 'hiddenLock', icon: 'fa-eye-slash', text: 'Lock When Hidden', action: () => this.cycleAutoLockFromMenu('hidden'), state: this.formatLockMinutes(this.hiddenLockMinutes), condition: true },
         { id: 'timezone', icon: 'fa-globe-americas', text: 'Timezone', action: () => this.openTimezoneModal(), state: this.currentTimezone, condition: true },
         { id: 'autoDownload', icon: 'fa-file-download', text: 'Auto-download Note', action: () => this.handleAutoDownloadFromMenu(), state: this.autoDownloadEnabled ? 'On' : 'Off', condition: true },
-        { id: 'editCustom', icon: 'fa-pencil-alt', text: 'Edit Custom Prompt', action: () => this.openCustomPromptModal(), condition: this.currentModeId === 'custom' },
+        { id: 'autoLap', icon: 'fa-cut', text: 'Auto-lap on Pauses', action: () => this.handleAutoLapFromMenu(), state: this.autoLapEnabled ? 'On' : 'Off', condition: true },
+        { id: 'manageModes', icon: 'fa-sliders-h', text: 'Manage Modes', action: () => this.openModeManager(), condition: true },
+        { id: 'editCustom', icon: 'fa-pencil-alt', text: 'Edit Mode Instructions', action: () => this.openCustomPromptModal(this.currentModeId), condition: this.modes.isUserMode(this.currentModeId) },
         { id: 'theme', icon: 'fa-sun', text: 'Toggle Theme', action: () => this.toggleTheme(), condition: true }
     ];
 
@@ -1319,47 +5868,114 @@ class VoiceNotesApp {
 
   private async startFullRecordingSession(): Promise<void> {
     if (this.isRecording || this.isProcessing) return;
+    if (!this.checkBudgetBeforeRecording()) return;
 
     this.isRecording = true;
     this.isPaused = false;
+    await this.flushPolishedEdits(); // The note object is reused for the new session below
     this.lapCount = 0;
+    this.lapSegments = [];
+    this.recordingSession = null;
+    this.renderLapRetryBar();
     this.allRawLapText = '';
     this.totalDurationMs = 0;
     this.sessionAudioChunks = [];
+    this.sessionAudioStartMs = [];
     this.sessionMimeType = ''; // Reset for new session
     
     if (this.currentNote) {
+      // A new session never overwrites a note that is already in the library.
+      this.currentNote.id = `note_${Date.now()}`;
+      this.currentNote.rawTranscription = '';
+      this.currentNote.polishedNote = '';
+      this.currentNote.clinicalNote = undefined;
+      this.currentNote.polishEdited = undefined;
+      this.currentNote.modeRef = undefined;
       this.currentNote.timestamp = Date.now();
       this.currentNote.duration = 0;
       this.currentNote.audioSize = 0;
       this.currentNote.promptTokens = 0;
       this.currentNote.completionTokens = 0;
       this.currentNote.cost = 0;
+      this.currentNote.costBreakdown = undefined;
+      this.currentNote.models = undefined;
+      this.currentNote.speakerNames = undefined;
+      this.currentNote.renditions = undefined;
+      this.currentNote.activeRenditionId = undefined;
+      this.currentNote.versions = undefined;
+      this.recordingSession = { noteId: this.currentNote.id, timestamp: this.currentNote.timestamp, mimeType: '', transcripts: [] };
     }
     
-    const rawPlaceholder = this.rawTranscription.getAttribute('placeholder') || '';
-    this.rawTranscription.textContent = rawPlaceholder;
-    this.rawTranscription.classList.add('placeholder-active');
-    
-    const polishedPlaceholder = this.polishedNote.getAttribute('placeholder') || '';
-    this.polishedNote.innerHTML = polishedPlaceholder;
-    this.polishedNote.classList.add('placeholder-active');
+    this.renderRawTranscript(); // Shows the placeholder: there are no laps or text yet
+    this.loadPlaybackAudio();
+    this.showPolishedMarkdown('');
 
     this.updateMetadataDisplay();
+    this.renderLapStatus();
+    this.setLiveControls(true);
     this.showRecordingDialog();
-    await this._startNextRecordingSegment();
+    await this._startNextRecordingSegment(0);
   }
 
   private async stopFullRecordingSession(): Promise<void> {
-    if (!this.isRecording || this.isProcessing) return;
-    this.stopReason = 'stop';
-    this.mediaRecorder?.stop();
+    if (!this.isRecording || this.isProcessing || !this.activeRecorder) return;
+    this.isProcessing = true;
+    this.setLiveControls(false);
+
+    const active = this.activeRecorder;
+    active.endMs = this.getElapsedMs();
+    active.isFinal = true;
+    this.totalDurationMs = active.endMs;
+    if (this.timerIntervalId) {
+      clearInterval(this.timerIntervalId);
+      this.timerIntervalId = null;
+    }
+    this.liveRecordingTitle.textContent = 'Finishing transcription...';
+    active.recorder.stop(); // onstop queues the last lap and finishes the session
   }
 
   private async handleLap(): Promise<void> {
-    if (!this.isRecording || this.isPaused || this.isProcessing) return;
-    this.stopReason = 'lap';
-    this.mediaRecorder?.stop();
+    if (!this.isRecording || this.isPaused || this.isProcessing || !this.activeRecorder) return;
+    const previous = this.activeRecorder;
+    previous.endMs = this.getElapsedMs();
+
+    // Start the next recorder before stopping this one so no audio falls between laps.
+    await this._startNextRecordingSegment(previous.endMs);
+    if (previous.recorder.state !== 'inactive') {
+      previous.recorder.stop();
+    }
+  }
+
+  /** Cuts a lap at a natural pause once the segment is long enough, or forcibly at the maximum length. */
+  private checkAutoLap(): void {
+    if (!this.autoLapEnabled || !this.isRecording || this.isPaused || this.isProcessing || !this.activeRecorder) {
+      this.silenceStartedAt = 0;
+      return;
+    }
+
+    const segmentMs = this.getElapsedMs() - this.activeRecorder.startMs;
+    if (segmentMs >= AUTO_LAP_MAX_SEGMENT_MS) {
+      this.silenceStartedAt = 0;
+      this.handleLap();
+      return;
+    }
+
+    const level = this.waveformVisualizer?.getRmsLevel() ?? null;
+    if (level === null || level >= AUTO_LAP_SILENCE_RMS) {
+      this.silenceStartedAt = 0;
+      return;
+    }
+
+    const now = Date.now();
+    if (!this.silenceStartedAt) this.silenceStartedAt = now;
+    if (segmentMs >= AUTO_LAP_MIN_SEGMENT_MS && now - this.silenceStartedAt >= AUTO_LAP_SILENCE_HOLD_MS) {
+      this.silenceStartedAt = 0;
+      this.handleLap();
+    }
+  }
+
+  private getElapsedMs(): number {
+    return this.totalDurationMs + (this.isPaused ? 0 : Date.now() - this.recordingStartTime);
   }
 
   private async handlePauseResume(): Promise<void> {
@@ -1369,7 +5985,7 @@ class VoiceNotesApp {
     if (!icon) return;
 
     if (this.isPaused) { // RESUMING
-      this.mediaRecorder?.resume();
+      this.activeRecorder?.recorder.resume();
       this.isPaused = false;
       this.waveformVisualizer?.resume();
       icon.classList.remove('fa-play');
@@ -1382,7 +5998,7 @@ class VoiceNotesApp {
       if (this.timerIntervalId) clearInterval(this.timerIntervalId);
       this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
     } else { // PAUSING
-      this.mediaRecorder?.pause();
+      this.activeRecorder?.recorder.pause();
       this.isPaused = true;
       this.waveformVisualizer?.pause();
       
@@ -1399,8 +6015,7 @@ class VoiceNotesApp {
 
   private updateLiveTimer(): void {
     if (!this.isRecording || !this.liveRecordingTimerDisplay || this.isPaused) return;
-    const now = Date.now();
-    const elapsedMs = (now - this.recordingStartTime) + this.totalDurationMs;
+    const elapsedMs = this.getElapsedMs();
 
     const totalSeconds = Math.floor(elapsedMs / 1000);
     const minutes = Math.floor(totalSeconds / 60);
@@ -1421,6 +6036,10 @@ class VoiceNotesApp {
     this.updateLiveTimer();
     if (this.timerIntervalId) clearInterval(this.timerIntervalId);
     this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
+
+    this.silenceStartedAt = 0;
+    if (this.autoLapIntervalId) clearInterval(this.autoLapIntervalId);
+    this.autoLapIntervalId = window.setInterval(() => this.checkAutoLap(), AUTO_LAP_CHECK_INTERVAL_MS);
   }
 
   private hideRecordingDialog(): void {
@@ -1441,138 +6060,748 @@ class VoiceNotesApp {
       clearInterval(this.timerIntervalId);
       this.timerIntervalId = null;
     }
+    if (this.autoLapIntervalId) {
+      clearInterval(this.autoLapIntervalId);
+      this.autoLapIntervalId = null;
+    }
+  }
+
+  private async _startNextRecordingSegment(startMs: number): Promise<void> {
+    try {
+      if (!this.stream) {
+          try {
+              this.stream = await navigator.mediaDevices.getUserMedia({audio: true});
+          } catch (err) {
+              console.error('Failed with basic constraints:', err);
+              this.stream = await navigator.mediaDevices.getUserMedia({
+                  audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+              });
+          }
+      }
+
+      if (this.stream && !this.waveformVisualizer) {
+        this.waveformVisualizer = new WaveformVisualizer(this.liveWaveformCanvas, {
+            waveColor: getComputedStyle(document.documentElement).getPropertyValue('--color-primary').trim(),
+            smoothingTimeConstant: 0.6,
+            lineWidth: 2,
+            fftSize: 2048,
+        });
+        await this.waveformVisualizer.start(this.stream);
+      }
+      
+      // Determine and set the MIME type for the entire session if not already set
+      if (!this.sessionMimeType) {
+        const mimeTypes = [
+            'audio/mp4', // Prioritize for broader compatibility
+            'audio/webm;codecs=opus',
+            'audio/webm',
+        ];
+        this.sessionMimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'audio/webm'; // Default fallback
+      }
+      
+      // Each lap gets its own recorder so every segment is a complete, decodable file.
+      const active: ActiveRecorder = {
+        recorder: new MediaRecorder(this.stream, { mimeType: this.sessionMimeType }),
+        chunks: [],
+        lapNumber: ++this.lapCount,
+        startMs,
+        endMs: startMs,
+        isFinal: false,
+      };
+      const sessionSegments = this.lapSegments;
+
+      active.recorder.ondataavailable = (event) => {
+        if (event.data && event.data.size > 0) {
+          this.journalRecordingChunk(active, active.chunks.length, event.data);
+          active.chunks.push(event.data);
+          // Enable download button once we have audio data
+          if (this.downloadAudioButton.disabled) {
+            this.downloadAudioButton.disabled = false;
+          }
+        }
+      };
+
+      active.recorder.onstop = () => {
+        if (sessionSegments !== this.lapSegments) return; // The session was discarded
+
+        if (active.chunks.length > 0) {
+          const audioBlob = new Blob(active.chunks, { type: this.sessionMimeType });
+          this.sessionAudioChunks.push(audioBlob);
+          this.sessionAudioStartMs.push(active.startMs);
+          if (this.currentNote) {
+            this.currentNote.audioSize += audioBlob.size;
+          }
+          this.enqueueLap({
+            lapNumber: active.lapNumber,
+            blob: audioBlob,
+            startMs: active.startMs,
+            endMs: active.endMs,
+            status: 'queued',
+            text: '',
+          });
+        }
+        if (active.isFinal) {
+          this.finishRecordingSession();
+        }
+      };
+
+      active.recorder.start(RECORDING_TIMESLICE_MS);
+      this.activeRecorder = active;
+      if (active.lapNumber === 1) {
+        // Don't count the time spent waiting for microphone permission.
+        this.recordingStartTime = Date.now();
+        if (this.recordingSession) this.recordingSession.mimeType = this.sessionMimeType;
+        this.persistRecordingSession();
+      }
+
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      const message = error instanceof Error ? error.message : "Unknown error";
+      this.setGlobalStatus(`Error: ${message}`, false, true);
+      this.resetToIdleState();
+    }
+  }
+
+  private enqueueLap(segment: LapSegment): void {
+    this.lapSegments.push(segment);
+    this.lapSegments.sort((a, b) => a.lapNumber - b.lapNumber);
+    this.renderLapStatus();
+    this.updateLapTranscription();
+    this.pumpLapQueue();
+  }
+
+  private pumpLapQueue(): void {
+    while (this.activeTranscriptions < MAX_PARALLEL_TRANSCRIPTIONS) {
+      const next = this.lapSegments.find(segment => segment.status === 'queued');
+      if (!next) break;
+      this.transcribeLap(next);
+    }
+
+    if (this.activeTranscriptions === 0 && !this.lapSegments.some(segment => segment.status === 'queued')) {
+      const callbacks = this.lapQueueDrainedCallbacks;
+      this.lapQueueDrainedCallbacks = [];
+      callbacks.forEach(callback => callback());
+    }
+  }
+
+  private waitForLapQueue(): Promise<void> {
+    return new Promise(resolve => {
+      this.lapQueueDrainedCallbacks.push(resolve);
+      this.pumpLapQueue();
+    });
+  }
+
+  private async transcribeLap(segment: LapSegment): Promise<void> {
+    segment.status = 'transcribing';
+    this.activeTranscriptions++;
+    this.renderLapStatus();
+
+    try {
+      const mimeType = segment.blob.type || 'audio/webm';
+      const transcriptionText = await this.getTranscription(segment.blob, mimeType, describeLap(segment));
+      segment.text = segment.uploadWindow
+        ? shiftTranscriptTimestamps(transcriptionText || '', segment.startMs)
+        : transcriptionText || '[No speech detected]';
+      segment.status = 'done';
+    } catch (error) {
+      // The audio stays on the segment so the lap can be retried from the Raw tab.
+      segment.error = error instanceof Error ? error.message : String(error);
+      segment.status = 'failed';
+    } finally {
+      this.activeTranscriptions--;
+    }
+
+    if (this.lapSegments.includes(segment)) {
+      this.renderLapStatus();
+      this.updateLapTranscription();
+      this.persistRecordingSession();
+      await this.saveCurrentNote();
+    }
+    this.pumpLapQueue();
+  }
+
+  /**
+   * Rebuilds the raw transcription in lap order, whatever order the laps finished in.
+   * Failed laps are shown in the Raw tab but left out of the text that gets polished.
+   */
+  private updateLapTranscription(): void {
+    const lapHeader = (segment: LapSegment) =>
+      `\n\n--- LAP ${segment.lapNumber} (${this.formatDuration(segment.startMs)} - ${this.formatDuration(segment.endMs)}) ---\n\n`;
+
+    const done = this.lapSegments.filter(segment => segment.status === 'done');
+    this.allRawLapText = this.lapSegments[0]?.uploadWindow
+      ? stitchTranscripts(done.map(segment => segment.text))
+      : done.map(segment => lapHeader(segment) + segment.text).join('');
+    if (this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
+
+    this.renderRawTranscript();
+    this.renderLapRetryBar();
+  }
+
+  /** The raw transcription with renamed speakers, as the polishing prompts should see it. */
+  private getTranscriptForPrompt(): string {
+    return stripGlossaryCorrections(renameSpeakers(this.allRawLapText, this.currentNote?.speakerNames ?? {}));
+  }
+
+  /**
+   * Draws the Raw tab as a speaker-coloured transcript: from the lap queue while a session
+   * is live, so pending and failed laps show too, otherwise from the note's raw text.
+   */
+  private renderRawTranscript(): void {
+    // Upload windows overlap, so they are shown stitched like any other upload.
+    const laps: (TranscriptLap & { notice?: string })[] = this.lapSegments.length > 0 && !this.lapSegments[0].uploadWindow
+      ? this.lapSegments.map(lap => ({
+          lapNumber: lap.lapNumber,
+          startMs: lap.startMs,
+          endMs: lap.endMs,
+          segments: lap.status === 'done' ? parseLapTranscript(lap.text, lap.lapNumber, lap.startMs) : [],
+          notice: lap.status === 'failed' ? `Lap ${lap.lapNumber} could not be transcribed: ${lap.error}`
+            : lap.status === 'done' ? undefined : `${LAP_STATUS_DISPLAY[lap.status].label}...`,
+        }))
+      : parseTranscript(this.allRawLapText);
+
+    if (laps.length === 0) {
+      this.rawTranscription.textContent = this.rawTranscription.getAttribute('placeholder') || '';
+      this.rawTranscription.classList.add('placeholder-active');
+      this.renderSpeakerBar([]);
+      return;
+    }
+
+    const names = this.currentNote?.speakerNames ?? {};
+    const speakers = [...new Set(laps.flatMap(lap => lap.segments.map(segment => segment.speaker)))]
+      .filter((speaker): speaker is string => speaker !== null);
+    this.rawTranscription.innerHTML = '';
+    this.rawTranscription.classList.remove('placeholder-active');
+    laps.forEach(lap => {
+      if (lap.lapNumber !== null) {
+        const header = document.createElement('div');
+        header.className = 'transcript-lap-header';
+        header.textContent = `Lap ${lap.lapNumber} · ${this.formatDuration(lap.startMs)} – ${this.formatDuration(lap.endMs)}`;
+        this.rawTranscription.appendChild(header);
+      }
+      if (lap.notice) {
+        const notice = document.createElement('div');
+        notice.className = 'transcript-notice';
+        notice.textContent = lap.notice;
+        this.rawTranscription.appendChild(notice);
+      }
+      lap.segments.forEach((segment, index) => {
+        const endMs = lap.segments[index + 1]?.startMs ?? (lap.lapNumber !== null ? lap.endMs : this.totalDurationMs);
+        this.rawTranscription.appendChild(this.createTranscriptSegmentElement(segment, endMs, speakers, names));
+      });
+    });
+    this.renderSpeakerBar(speakers);
+  }
+
+  private createTranscriptSegmentElement(
+    segment: TranscriptSegment,
+    endMs: number,
+    speakers: string[],
+    names: Record<string, string>,
+  ): HTMLDivElement {
+    const row = document.createElement('div');
+    row.className = 'transcript-segment';
+    row.dataset.startMs = String(segment.startMs);
+    // An unknown end (an upload that couldn't be decoded) runs to the next segment or forever.
+    row.dataset.endMs = String(endMs > segment.startMs ? endMs : Number.MAX_SAFE_INTEGER);
+    row.addEventListener('click', () => {
+      if (window.getSelection()?.toString()) return; // Selecting text to copy, not seeking
+      this.seekPlayback(segment.startMs, true);
+    });
+
+    const time = document.createElement('span');
+    time.className = 'transcript-time';
+    time.textContent = formatTranscriptTimestamp(Math.floor(segment.startMs / 1000));
+    row.appendChild(time);
+
+    if (segment.speaker) {
+      row.classList.add(`speaker-color-${speakers.indexOf(segment.speaker) % SPEAKER_COLOR_COUNT}`);
+      const speaker = document.createElement('span');
+      speaker.className = 'transcript-speaker';
+      speaker.textContent = names[segment.speaker] ?? segment.speaker;
+      row.appendChild(speaker);
+    }
+
+    const text = document.createElement('span');
+    text.className = 'transcript-text';
+    let position = 0;
+    segment.markers.forEach(marker => {
+      this.appendTranscriptText(text, segment.text.slice(position, marker.offset));
+      position = marker.offset;
+      const label = marker.kind === 'unclear' && marker.detail ? `${marker.detail}?` : marker.detail || marker.kind;
+      if (marker.kind !== 'unclear') {
+        const badge = document.createElement('span');
+        badge.className = `transcript-marker marker-${marker.kind}`;
+        badge.textContent = label;
+        badge.title = marker.kind === 'pause' ? 'Pause' : 'Background sound';
+        text.appendChild(badge);
+        return;
+      }
+      const playButton = document.createElement('button');
+      playButton.type = 'button';
+      playButton.className = 'transcript-marker marker-unclear';
+      playButton.title = 'Unclear speech: play this bit';
+      playButton.innerHTML = '<i class="fas fa-play"></i> ';
+      playButton.appendChild(document.createTextNode(label));
+      playButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const heardAtMs = estimateMarkerTimeMs(segment, endMs, marker);
+        this.playPlaybackRange(
+          Math.max(segment.startMs, heardAtMs - UNCLEAR_PLAYBACK_MARGIN_MS),
+          heardAtMs + UNCLEAR_PLAYBACK_MARGIN_MS,
+        );
+      });
+      text.appendChild(playButton);
+    });
+    this.appendTranscriptText(text, segment.text.slice(position));
+    row.appendChild(text);
+    return row;
+  }
+
+  /** Adds transcript words, with each glossary correction highlighted so it can be reviewed or undone. */
+  private appendTranscriptText(container: HTMLElement, text: string): void {
+    let last = 0;
+    for (const match of text.matchAll(GLOSSARY_CORRECTION_PATTERN)) {
+      container.appendChild(document.createTextNode(text.slice(last, match.index)));
+      const [annotation, term, heard] = match;
+      const correction = document.createElement('button');
+      correction.type = 'button';
+      correction.className = 'transcript-correction';
+      correction.textContent = term;
+      correction.title = `Glossary correction: the transcript said "${heard}". Click to undo.`;
+      correction.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.undoGlossaryCorrection(annotation, heard);
+      });
+      container.appendChild(correction);
+      last = match.index! + annotation.length;
+    }
+    container.appendChild(document.createTextNode(text.slice(last)));
+  }
+
+  /** Puts back what the transcript said, everywhere the same substitution was made. */
+  private async undoGlossaryCorrection(annotation: string, heard: string): Promise<void> {
+    const count = this.allRawLapText.split(annotation).length - 1;
+    const places = count > 1 ? ` in all ${count} places` : '';
+    if (!confirm(`Undo the glossary correction and restore "${heard}"${places}? The polished note is not changed.`)) return;
+    this.lapSegments.forEach(segment => {
+      segment.text = segment.text.replaceAll(annotation, heard);
+    });
+    this.allRawLapText = this.allRawLapText.replaceAll(annotation, heard);
+    if (this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
+    this.renderRawTranscript();
+    await this.saveCurrentNote();
+  }
+
+  /** Points the player at the session audio, or hides it while recording or when there is none. */
+  private loadPlaybackAudio(): void {
+    this.playbackAudio.pause();
+    this.playbackAudio.removeAttribute('src');
+    this.playbackAudio.load();
+    this.playbackParts.forEach(part => URL.revokeObjectURL(part.url));
+    this.playbackParts = this.isRecording ? [] : this.sessionAudioChunks.map((blob, index) => ({
+      url: URL.createObjectURL(blob),
+      startMs: this.sessionAudioStartMs[index] ?? 0,
+    }));
+    this.playbackPartIndex = -1;
+    this.playbackStopAtMs = null;
+    this.playbackDurationMs = this.totalDurationMs || this.currentNote?.duration || 0;
+    this.audioPlayer.style.display = this.playbackParts.length > 0 ? 'flex' : 'none';
+    this.rawTranscription.classList.toggle('has-audio', this.playbackParts.length > 0); // Segments become seekable
+    this.audioPlayerSeek.max = String(this.playbackDurationMs);
+    this.audioPlayerSeek.value = '0';
+    this.updatePlaybackUi(0);
+    this.updatePlaybackToggle();
+  }
+
+  private getPlaybackPositionMs(): number {
+    const part = this.playbackParts[this.playbackPartIndex];
+    return part ? part.startMs + this.playbackAudio.currentTime * 1000 : 0;
+  }
+
+  /** Moves playback to `positionMs` of the recording, switching to the lap that contains it. */
+  private async seekPlayback(positionMs: number, play: boolean): Promise<void> {
+    if (this.playbackParts.length === 0) return;
+    let index = 0;
+    this.playbackParts.forEach((part, i) => {
+      if (part.startMs <= positionMs) index = i;
+    });
+    const part = this.playbackParts[index];
+    try {
+      if (index !== this.playbackPartIndex) {
+        this.playbackPartIndex = index;
+        const loaded = new Promise<void>((resolve, reject) => {
+          this.playbackAudio.addEventListener('loadedmetadata', () => resolve(), { once: true });
+          this.playbackAudio.addEventListener('error', () => reject(this.playbackAudio.error), { once: true });
+        });
+        this.playbackAudio.src = part.url;
+        await loaded;
+      }
+      this.playbackAudio.currentTime = Math.max(0, positionMs - part.startMs) / 1000;
+      this.updatePlaybackUi(positionMs);
+      if (play) await this.playbackAudio.play();
+    } catch (error) {
+      console.error('Failed to play session audio:', error);
+      this.setGlobalStatus('Could not play the session audio.', false, true);
+    }
+  }
+
+  /** Plays a stretch of the recording and stops at its end, for checking a doubtful word. */
+  private async playPlaybackRange(startMs: number, endMs: number): Promise<void> {
+    await this.seekPlayback(startMs, true);
+    this.playbackStopAtMs = endMs;
+  }
+
+  private togglePlayback(): void {
+    if (this.playbackAudio.paused) {
+      this.playbackStopAtMs = null;
+      if (this.playbackPartIndex < 0) {
+        this.seekPlayback(Number(this.audioPlayerSeek.value), true);
+      } else {
+        this.playbackAudio.play().catch(error => console.error('Failed to resume playback:', error));
+      }
+    } else {
+      this.playbackAudio.pause();
+    }
+  }
+
+  private handlePlaybackProgress(): void {
+    const positionMs = this.getPlaybackPositionMs();
+    if (this.playbackStopAtMs !== null && positionMs >= this.playbackStopAtMs) {
+      this.playbackStopAtMs = null;
+      this.playbackAudio.pause();
+    }
+    this.updatePlaybackUi(positionMs);
+  }
+
+  /** Carries on with the next lap, so the laps play as one recording. */
+  private handlePlaybackPartEnded(): void {
+    const next = this.playbackParts[this.playbackPartIndex + 1];
+    if (next && this.playbackStopAtMs === null) {
+      this.seekPlayback(next.startMs, true);
+      return;
+    }
+    this.playbackStopAtMs = null;
+    this.updatePlaybackToggle();
+  }
+
+  private updatePlaybackToggle(): void {
+    const playing = !this.playbackAudio.paused;
+    this.audioPlayerToggle.innerHTML = `<i class="fas ${playing ? 'fa-pause' : 'fa-play'}"></i>`;
+    this.audioPlayerToggle.title = playing ? 'Pause' : 'Play';
+    if (!playing) this.highlightPlayingSegment(null);
+  }
+
+  private updatePlaybackUi(positionMs: number): void {
+    // Laps recorded before a file's length was known can run past the duration on record.
+    if (positionMs > this.playbackDurationMs) {
+      this.playbackDurationMs = positionMs;
+      this.audioPlayerSeek.max = String(positionMs);
+    }
+    if (!this.isSeekDragging) this.audioPlayerSeek.value = String(positionMs);
+    this.audioPlayerTime.textContent = `${this.formatDuration(positionMs)} / ${this.formatDuration(this.playbackDurationMs)}`;
+    if (!this.playbackAudio.paused) this.highlightPlayingSegment(positionMs);
+  }
+
+  /** Marks the segment being played, keeping it in view; null clears the mark. */
+  private highlightPlayingSegment(positionMs: number | null): void {
+    const rows = Array.from(this.rawTranscription.querySelectorAll<HTMLDivElement>('.transcript-segment'));
+    const current = positionMs === null ? undefined : rows.find(row =>
+      Number(row.dataset.startMs) <= positionMs && positionMs < Number(row.dataset.endMs)
+    );
+    rows.forEach(row => {
+      if (row !== current) row.classList.remove('playing');
+    });
+    if (current && !current.classList.contains('playing')) {
+      current.classList.add('playing');
+      current.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }
+
+  /** One editable chip per speaker; rebuilt only when the speakers or names change so typing isn't interrupted. */
+  private renderSpeakerBar(speakers: string[]): void {
+    const names = this.currentNote?.speakerNames ?? {};
+    const key = JSON.stringify([speakers, names]);
+    if (this.speakerBar.dataset.key === key) return;
+    this.speakerBar.dataset.key = key;
+    this.speakerBar.innerHTML = '';
+    this.speakerBar.style.display = speakers.length > 0 ? 'flex' : 'none';
+
+    speakers.forEach((speaker, index) => {
+      const chip = document.createElement('label');
+      chip.className = `speaker-chip speaker-color-${index % SPEAKER_COLOR_COUNT}`;
+      chip.title = `Rename ${speaker} throughout this note`;
+      const swatch = document.createElement('span');
+      swatch.className = 'speaker-swatch';
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.className = 'speaker-name-input';
+      input.placeholder = speaker;
+      input.value = names[speaker] ?? '';
+      input.addEventListener('change', () => this.renameSpeaker(speaker, input.value));
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') input.blur();
+      });
+      chip.append(swatch, input);
+      this.speakerBar.appendChild(chip);
+    });
+  }
+
+  private async renameSpeaker(speaker: string, name: string): Promise<void> {
+    if (!this.currentNote) return;
+    const names = { ...this.currentNote.speakerNames };
+    const trimmed = name.replace(/:/g, '').trim(); // A colon would end the label inside the prompt
+    if (trimmed && trimmed !== speaker) {
+      names[speaker] = trimmed;
+    } else {
+      delete names[speaker];
+    }
+    this.currentNote.speakerNames = Object.keys(names).length > 0 ? names : undefined;
+    this.renderRawTranscript();
+    this.setGlobalStatus(trimmed && trimmed !== speaker ? `${speaker} is now "${trimmed}".` : `${speaker} keeps its original label.`);
+    await this.saveCurrentNote();
+  }
+
+  private getFailedLaps(): LapSegment[] {
+    return this.lapSegments.filter(segment => segment.status === 'failed');
+  }
+
+  private renderLapRetryBar(): void {
+    const failedLaps = this.getFailedLaps();
+    this.lapRetryBar.innerHTML = '';
+    this.lapRetryBar.style.display = failedLaps.length > 0 ? 'flex' : 'none';
+
+    failedLaps.forEach(segment => {
+      const row = document.createElement('div');
+      row.className = 'lap-retry-item';
+
+      const message = document.createElement('span');
+      message.className = 'lap-retry-message';
+      message.innerHTML = '<i class="fas fa-exclamation-triangle"></i> ';
+      message.appendChild(document.createTextNode(`${describeLap(segment)} could not be transcribed and is left out of the note.`));
+      message.title = segment.error || '';
+
+      const retryButton = document.createElement('button');
+      retryButton.className = 'modal-button secondary';
+      retryButton.textContent = segment.uploadWindow ? 'Retry this part' : 'Retry this lap';
+      retryButton.disabled = this.isProcessing;
+      retryButton.addEventListener('click', () => this.retryLap(segment.lapNumber));
+
+      row.appendChild(message);
+      row.appendChild(retryButton);
+      this.lapRetryBar.appendChild(row);
+    });
+  }
+
+  /** Re-sends one failed lap's audio, splices the result back in and re-polishes a finished note. */
+  private async retryLap(lapNumber: number): Promise<void> {
+    const segment = this.lapSegments.find(lap => lap.lapNumber === lapNumber);
+    if (!segment || segment.status !== 'failed' || this.isProcessing) return;
+
+    segment.status = 'queued';
+    segment.error = undefined;
+    this.renderLapStatus();
+    this.updateLapTranscription();
+    this.pumpLapQueue();
+    if (this.isRecording) return; // The session polishes once all of its laps have finished
+
+    this.isProcessing = true;
+    this.renderLapRetryBar();
+    try {
+      await this.waitForLapQueue();
+      if (this.lapSegments.includes(segment) && !this.getFailedLaps().includes(segment)) {
+        // Its journaled audio was only kept for this retry.
+        if (this.currentNote) {
+          await this.noteStore.deleteLapAudio(this.currentNote.id, lapNumber)
+            .catch(error => console.error('Failed to clear the lap audio:', error));
+        }
+        await this.getPolishedNote();
+      }
+    } finally {
+      this.isProcessing = false;
+      this.renderLapRetryBar();
+      this.reportFailedLaps();
+    }
   }
 
-  private async _startNextRecordingSegment(): Promise<void> {
-    try {
-      this.audioChunks = [];
-      if (!this.stream) {
-          try {
-              this.stream = await navigator.mediaDevices.getUserMedia({audio: true});
-          } catch (err) {
-              console.error('Failed with basic constraints:', err);
-              this.stream = await navigator.mediaDevices.getUserMedia({
-                  audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
-              });
-          }
-      }
+  private reportFailedLaps(): void {
+    const failedLaps = this.getFailedLaps();
+    if (failedLaps.length === 0) return;
+    const laps = failedLaps.map(segment => segment.lapNumber).join(', ');
+    const kind = failedLaps[0].uploadWindow ? 'Part' : 'Lap';
+    this.setGlobalStatus(`${kind} ${laps} could not be transcribed and ${failedLaps.length > 1 ? 'were' : 'was'} left out. Retry from the Raw tab.`, false, true);
+  }
 
-      if (this.stream && !this.waveformVisualizer) {
-        this.waveformVisualizer = new WaveformVisualizer(this.liveWaveformCanvas, {
-            waveColor: getComputedStyle(document.documentElement).getPropertyValue('--color-primary').trim(),
-            smoothingTimeConstant: 0.6,
-            lineWidth: 2,
-            fftSize: 2048,
-        });
-        await this.waveformVisualizer.start(this.stream);
-      }
-      
-      // Determine and set the MIME type for the entire session if not already set
-      if (!this.sessionMimeType) {
-        const mimeTypes = [
-            'audio/mp4', // Prioritize for broader compatibility
-            'audio/webm;codecs=opus',
-            'audio/webm',
-        ];
-        this.sessionMimeType = mimeTypes.find(type => MediaRecorder.isTypeSupported(type)) || 'audio/webm'; // Default fallback
-      }
-      
-      this.mediaRecorder = new MediaRecorder(this.stream, { mimeType: this.sessionMimeType });
+  private renderLapStatus(): void {
+    this.lapStatusList.innerHTML = '';
+    this.lapSegments.forEach(segment => {
+      const display = LAP_STATUS_DISPLAY[segment.status];
+      const chip = document.createElement('span');
+      chip.className = `lap-status lap-status-${segment.status}`;
+      chip.title = `Lap ${segment.lapNumber}: ${display.label}`;
 
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0) {
-          this.audioChunks.push(event.data);
-          this.sessionAudioChunks.push(event.data);
-          // Enable download button once we have audio data
-          if (this.downloadAudioButton.disabled) {
-            this.downloadAudioButton.disabled = false;
-          }
-        }
-      };
+      const icon = document.createElement('i');
+      icon.className = `fas ${display.icon}`;
+      chip.appendChild(icon);
+      chip.appendChild(document.createTextNode(` Lap ${segment.lapNumber}`));
 
-      this.mediaRecorder.onstop = async () => {
-        // If the recorder was paused, the pre-pause duration is already in totalDurationMs.
-        // We only need to add the duration of the final active segment part.
-        if (!this.isPaused) {
-            const segmentDuration = Date.now() - this.recordingStartTime;
-            this.totalDurationMs += segmentDuration;
-        }
-        
-        if (this.audioChunks.length > 0) {
-            const audioBlob = new Blob(this.audioChunks, { type: this.sessionMimeType });
-            if(this.currentNote) {
-                this.currentNote.audioSize += audioBlob.size;
-            }
-            await this.processAudioSegment(audioBlob);
-        } else { // No audio captured in this segment
-            if (this.stopReason === 'lap') {
-                await this._startNextRecordingSegment(); // Just restart for next lap
-            } else { // Final stop with no final audio
-                this.setGlobalStatus('Polishing note...', true);
-                await this.getPolishedNote();
-                this.resetToIdleState();
-            }
-        }
-      };
+      this.lapStatusList.appendChild(chip);
+    });
+  }
 
-      this.mediaRecorder.start();
-      this.recordingStartTime = Date.now();
-      this.liveRecordingTitle.textContent = 'Recording...';
-      if (this.timerIntervalId) clearInterval(this.timerIntervalId);
-      this.timerIntervalId = window.setInterval(() => this.updateLiveTimer(), 50);
+  private async finishRecordingSession(): Promise<void> {
+    await this.waitForLapQueue();
+    this.liveRecordingTitle.textContent = 'Polishing final note...';
+    await this.getPolishedNote();
+    await this.clearRecordingJournal();
+    this.resetToIdleState();
+    this.renderLapRetryBar();
+    this.reportFailedLaps();
+  }
+
+  private journalRecordingChunk(active: ActiveRecorder, seq: number, blob: Blob): void {
+    const session = this.recordingSession;
+    if (!session) return;
+    this.noteStore.appendRecordingChunk({
+      noteId: session.noteId,
+      lapNumber: active.lapNumber,
+      seq,
+      lapStartMs: active.startMs,
+      // The last chunk arrives after stop(), when the lap's end time is already known.
+      endMs: active.recorder.state === 'inactive' ? active.endMs : this.getElapsedMs(),
+      mimeType: this.sessionMimeType,
+      blob,
+    }).catch(error => console.error('Failed to journal recording chunk:', error));
+  }
 
+  private persistRecordingSession(): void {
+    const session = this.recordingSession;
+    if (!session) return;
+    session.transcripts = this.lapSegments
+      .filter(segment => segment.status === 'done')
+      .map(segment => ({ lapNumber: segment.lapNumber, text: segment.text }));
+    this.noteStore.saveRecordingSession(session)
+      .catch(error => console.error('Failed to journal recording session:', error));
+  }
+
+  /**
+   * Closes the journal once the note is in the library, keeping the audio of failed laps for a later retry.
+   * If the note never reached the library the journal stays, so the recording is offered for recovery again.
+   */
+  private async clearRecordingJournal(): Promise<void> {
+    const session = this.recordingSession;
+    if (!session) return;
+    this.recordingSession = null;
+    try {
+      if (!await this.noteStore.getNote(session.noteId)) {
+        console.warn('The note was not saved; keeping its recording journal.');
+        return;
+      }
+      await this.noteStore.deleteRecording(session.noteId, this.getFailedLaps().map(segment => segment.lapNumber));
     } catch (error) {
-      console.error('Error starting recording:', error);
-      const message = error instanceof Error ? error.message : "Unknown error";
-      this.setGlobalStatus(`Error: ${message}`, false, true);
-      this.resetToIdleState();
+      console.error('Failed to clear the recording journal:', error);
     }
   }
 
-  private async processAudioSegment(audioBlob: Blob): Promise<void> {
-    if (this.isProcessing) return;
-    this.isProcessing = true;
-    this.setLiveControls(false); // Disable buttons
-    this.lapCount++;
-    this.liveRecordingTitle.textContent = `Processing Lap ${this.lapCount}...`;
-    if (this.timerIntervalId) clearInterval(this.timerIntervalId);
+  /** Offers to finish a recording that was cut short by a crash, reload or closed tab. */
+  private async offerRecordingRecovery(): Promise<void> {
+    if (!this.isAiReady()) return; // Offered again on the next start, once there is an API key
 
+    let unfinished: { session: RecordingSession; chunks: RecordingChunk[] } | null;
     try {
-      const base64Audio = await this.blobToBase64(audioBlob);
-      if (!base64Audio) throw new Error('Failed to convert audio');
+      unfinished = await this.noteStore.getUnfinishedRecording();
+    } catch (error) {
+      console.error('Failed to read the recording journal:', error);
+      return;
+    }
+    if (!unfinished) return;
 
-      const mimeType = this.sessionMimeType || 'audio/webm';
-      const transcriptionText = await this.getTranscription(base64Audio, mimeType);
-      
-      const segmentStartTime = this.formatDuration(this.totalDurationMs - (Date.now() - this.recordingStartTime));
-      const segmentEndTime = this.formatDuration(this.totalDurationMs);
-      const lapHeader = `\n\n--- LAP ${this.lapCount} (${segmentStartTime} - ${segmentEndTime}) ---\n\n`;
-      this.allRawLapText += lapHeader + (transcriptionText || '[No speech detected]');
-      
-      this.rawTranscription.textContent = this.allRawLapText;
-      if (this.rawTranscription.classList.contains('placeholder-active')) {
-          this.rawTranscription.classList.remove('placeholder-active');
+    const { session, chunks } = unfinished;
+    if (chunks.length === 0) {
+      await this.noteStore.deleteRecording(session.noteId).catch(error => console.error('Failed to clear the recording journal:', error));
+      return;
+    }
+
+    const recordedMs = Math.max(...chunks.map(chunk => chunk.endMs));
+    const startedAt = new Date(session.timestamp).toLocaleString();
+    if (!confirm(`An unfinished recording from ${startedAt} (${this.formatDuration(recordedMs)} of audio) was found. Recover it and finish the note?`)) {
+      if (confirm('Discard the unfinished recording? This cannot be undone. Choose Cancel to be asked again next time.')) {
+        await this.noteStore.deleteRecording(session.noteId).catch(error => console.error('Failed to clear the recording journal:', error));
+      }
+      return;
+    }
+    await this.recoverRecording(session, chunks);
+  }
+
+  /** Rebuilds the laps from the journal, transcribes the ones that never finished and polishes the note. */
+  private async recoverRecording(session: RecordingSession, chunks: RecordingChunk[]): Promise<void> {
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    try {
+      const savedNote = await this.noteStore.getNote(session.noteId);
+      this.currentNote = savedNote ? { ...savedNote } : {
+        id: session.noteId,
+        rawTranscription: '',
+        polishedNote: '',
+        timestamp: session.timestamp,
+        duration: 0,
+        audioSize: 0,
+        modeId: this.currentModeId,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+      };
+      if (savedNote && this.modes.get(savedNote.modeId)) {
+        this.currentModeId = savedNote.modeId;
+        this.updateModeDisplay();
+        this.updateCustomPromptButtonVisibility();
       }
-      if(this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
 
+      const transcripts = new Map(session.transcripts.map(lap => [lap.lapNumber, lap.text]));
+      const lapNumbers = [...new Set(chunks.map(chunk => chunk.lapNumber))].sort((a, b) => a - b);
+      this.lapSegments = lapNumbers.map(lapNumber => {
+        const lapChunks = chunks.filter(chunk => chunk.lapNumber === lapNumber);
+        const text = transcripts.get(lapNumber);
+        return {
+          lapNumber,
+          blob: new Blob(lapChunks.map(chunk => chunk.blob), { type: session.mimeType }),
+          startMs: lapChunks[0].lapStartMs,
+          endMs: Math.max(...lapChunks.map(chunk => chunk.endMs)),
+          status: text === undefined ? 'queued' : 'done',
+          text: text ?? '',
+        };
+      });
+      this.recordingSession = session;
+      this.sessionMimeType = session.mimeType;
+      this.sessionAudioChunks = this.lapSegments.map(segment => segment.blob);
+      this.sessionAudioStartMs = this.lapSegments.map(segment => segment.startMs);
+      this.totalDurationMs = Math.max(...this.lapSegments.map(segment => segment.endMs));
+      this.currentNote.audioSize = this.sessionAudioChunks.reduce((total, blob) => total + blob.size, 0);
+      this.downloadAudioButton.disabled = false;
+
+      this.showPolishedMarkdown('');
+      this.updateLapTranscription();
+      this.updateMetadataDisplay();
+      this.setGlobalStatus('Recovering unfinished recording...', true);
+
+      await this.waitForLapQueue();
+      await this.getPolishedNote();
+      await this.clearRecordingJournal();
+      this.reportFailedLaps();
     } catch (error) {
-        console.error('Error processing audio segment:', error);
-        this.setGlobalStatus('Error processing segment.', false, true);
+      console.error('Failed to recover recording:', error);
+      this.setGlobalStatus('Could not recover the unfinished recording.', false, true);
     } finally {
-        if (this.stopReason === 'lap') {
-            await this._startNextRecordingSegment();
-        } else { // 'stop'
-            this.liveRecordingTitle.textContent = 'Polishing final note...';
-            await this.getPolishedNote();
-            this.resetToIdleState();
-        }
-        this.isProcessing = false;
-        this.setLiveControls(true); // Re-enable buttons if continuing
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.renderLapRetryBar();
+      this.loadPlaybackAudio();
     }
   }
 
   private triggerFileUpload(): void {
     if (this.isRecording || this.isProcessing) return;
+    if (!this.checkBudgetBeforeRecording()) return;
     this.audioUploadInput.click();
   }
 
@@ -1623,26 +6852,26 @@ class VoiceNotesApp {
     this.fabRecord.disabled = true;
 
     try {
+        this.sessionAudioChunks = [file];
+        this.sessionAudioStartMs = [0];
+        this.sessionMimeType = file.type || 'audio/webm';
         if (this.currentNote) {
             this.currentNote.audioSize = file.size;
-            this.currentNote.duration = 0; // Duration is not available for uploads
-            this.totalDurationMs = 0;
         }
+        this.totalDurationMs = 0;
         this.updateMetadataDisplay();
 
         this.setGlobalStatus(`Processing ${file.name}...`, true);
 
-        const base64Audio = await this.blobToBase64(file);
-        if (!base64Audio) throw new Error('Failed to read the audio file.');
-
-        // Enhanced logging for transcription debugging
-        console.log('File upload debug info:', {
-            fileName: file.name,
-            fileSize: file.size,
-            mimeType: file.type,
-            base64Length: base64Audio.length,
-            fileExtension: file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
-        });
+        // Decoding gives us the duration, and splits long files into windows.
+        let decodedAudio = await decodeAudioFile(file);
+        if (decodedAudio) {
+            if (decodedAudio.durationMs > MAX_UPLOAD_DURATION_MS) {
+                throw new Error(`${file.name} is too long (${Math.round(decodedAudio.durationMs / 60000)} minutes). Split it into files under ${MAX_UPLOAD_DURATION_MS / 3600000} hours.`);
+            }
+            this.totalDurationMs = decodedAudio.durationMs;
+            this.updateMetadataDisplay();
+        }
 
         // Normalize MIME type for transcription service
         let normalizedMimeType = file.type;
@@ -1664,11 +6893,21 @@ class VoiceNotesApp {
             console.log(`Guessed MIME type for ${ext}: ${normalizedMimeType}`);
         }
 
-        console.log('Sending to transcription service with MIME type:', normalizedMimeType);
-
         let transcriptionText: string;
         try {
-            transcriptionText = await this.getTranscription(base64Audio, normalizedMimeType, true);
+            if (decodedAudio && decodedAudio.windows.length > 0) {
+                transcriptionText = await this.transcribeInChunks(decodedAudio.buffer, decodedAudio.windows);
+            } else {
+                // Enhanced logging for transcription debugging
+                console.log('File upload debug info:', {
+                    fileName: file.name,
+                    fileSize: file.size,
+                    mimeType: file.type,
+                    fileExtension: file.name.toLowerCase().substring(file.name.lastIndexOf('.'))
+                });
+                console.log('Sending to transcription service with MIME type:', normalizedMimeType);
+                transcriptionText = await this.getTranscription(file, normalizedMimeType, 'file');
+            }
             console.log('Transcription successful, length:', transcriptionText?.length || 0);
         } catch (transcriptionError) {
             console.error('Detailed transcription error:', {
@@ -1684,15 +6923,15 @@ class VoiceNotesApp {
             });
             throw transcriptionError; // Re-throw to maintain existing error handling
         }
-        
+        decodedAudio = null; // Releases the decoded samples before polishing
+
         this.allRawLapText = transcriptionText || '[No speech detected]';
-        this.rawTranscription.textContent = this.allRawLapText;
-        if (this.rawTranscription.classList.contains('placeholder-active')) {
-            this.rawTranscription.classList.remove('placeholder-active');
-        }
         if(this.currentNote) this.currentNote.rawTranscription = this.allRawLapText;
+        this.renderRawTranscript();
+        await this.saveCurrentNote();
         
         await this.getPolishedNote();
+        this.reportFailedLaps();
     } catch (error) {
         console.error('Error processing uploaded file:', error);
         const errorMessage = error instanceof Error ? error.message : "Upload failed";
@@ -1702,129 +6941,819 @@ class VoiceNotesApp {
         this.fabRecord.disabled = false;
         input.value = ''; // Reset for next selection
         this.updateMetadataDisplay();
+        this.renderLapRetryBar();
+        this.loadPlaybackAudio();
     }
 }
 
-  private async blobToBase64(blob: Blob): Promise<string> {
-      const reader = new FileReader();
-      const readResult = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          try {
-            resolve((reader.result as string).split(',')[1]);
-          } catch (err) {
-            reject(err);
-          }
-        };
-        reader.onerror = () => reject(reader.error);
-      });
-      reader.readAsDataURL(blob);
-      return readResult;
+  /**
+   * Transcribes a long upload window by window, then stitches the parts onto one timeline. Each window is
+   * encoded just before it is sent and dropped once transcribed. A window that still fails is left out and
+   * its audio is journaled, so it can be retried from the Raw tab like a lap.
+   */
+  private async transcribeInChunks(buffer: AudioBuffer, windows: TimeWindow[]): Promise<string> {
+    const segments: LapSegment[] = windows.map((span, index) => ({
+      lapNumber: index + 1,
+      blob: new Blob(),
+      startMs: span.startMs,
+      endMs: span.endMs,
+      status: 'queued',
+      text: '',
+      uploadWindow: true,
+    }));
+    this.lapSegments = segments;
+    let nextIndex = 0;
+    let completed = 0;
+
+    const transcribeNextWindows = async () => {
+      while (nextIndex < segments.length) {
+        const index = nextIndex++;
+        const segment = segments[index];
+        const blob = encodeWavWindow(buffer, windows[index]);
+        try {
+          const text = await this.getTranscription(blob, 'audio/wav', `part ${segment.lapNumber} of ${segments.length}`);
+          segment.text = shiftTranscriptTimestamps(text || '', segment.startMs);
+          segment.status = 'done';
+        } catch (error) {
+          segment.blob = blob;
+          segment.error = error instanceof Error ? error.message : String(error);
+          segment.status = 'failed';
+          await this.journalFailedWindow(segment);
+        }
+        completed++;
+        this.setGlobalStatus(`Transcribed ${completed} of ${segments.length} parts...`, true);
+      }
+    };
+    const workerCount = Math.min(MAX_PARALLEL_TRANSCRIPTIONS, segments.length);
+    await Promise.all(Array.from({ length: workerCount }, () => transcribeNextWindows()));
+
+    if (segments.every(segment => segment.status === 'failed')) {
+      this.lapSegments = [];
+      // Nothing is saved for an upload that failed outright, so the audio kept for retries would be orphaned.
+      if (this.currentNote) {
+        await this.noteStore.deleteRecording(this.currentNote.id).catch(error => console.error('Failed to clear the kept parts:', error));
+      }
+      throw new Error(segments[0].error);
+    }
+    this.updateLapTranscription();
+    return this.allRawLapText;
+  }
+
+  private async journalFailedWindow(segment: LapSegment): Promise<void> {
+    if (!this.currentNote) return;
+    try {
+      await this.noteStore.appendRecordingChunk({
+        noteId: this.currentNote.id,
+        lapNumber: segment.lapNumber,
+        seq: 0,
+        lapStartMs: segment.startMs,
+        endMs: segment.endMs,
+        mimeType: segment.blob.type,
+        blob: segment.blob,
+      });
+    } catch (error) {
+      console.error('Failed to keep the audio of a failed part:', error);
+    }
+  }
+
+  private getTranscriptionProvider(): TranscriptionProvider {
+    const { provider, geminiModel, baseUrl, model } = this.aiServiceSettings.transcription;
+    if (provider === 'openai-compatible') {
+      return new OpenAICompatibleTranscriptionProvider(baseUrl, this.aiServerKeys.transcription, model || DEFAULT_WHISPER_MODEL);
+    }
+    return new GeminiTranscriptionProvider(this.genAI, geminiModel);
+  }
+
+  private getPolishingProvider(): PolishingProvider {
+    const { provider, geminiModel, baseUrl, model } = this.aiServiceSettings.polishing;
+    if (provider === 'openai-compatible') {
+      return new OpenAICompatiblePolishingProvider(baseUrl, this.aiServerKeys.polishing, model);
+    }
+    return new GeminiPolishingProvider(this.genAI, geminiModel);
+  }
+
+  private async getTranscription(audio: Blob, mimeType: string, context: string): Promise<string> {
+    try {
+      this.setGlobalStatus(`Transcribing ${context}...`, true);
+      const provider = this.getTranscriptionProvider();
+      const modeId = this.currentNote?.modeId ?? this.currentModeId;
+      const glossary = this.glossary.forMode(modeId);
+      const result = await withRetry(
+        () => provider.transcribe(audio, mimeType, glossary),
+        (attempt, delayMs, error) => {
+          console.warn(`Transcription attempt ${attempt} for ${context} failed, retrying:`, error);
+          this.setGlobalStatus(`Retrying ${context} in ${Math.ceil(delayMs / 1000)}s...`, true);
+        },
+      );
+
+      this.addTokenUsage('transcription', modeId, result.usage, provider);
+      this.updateMetadataDisplay();
+      return this.glossaryAutoCorrect ? correctGlossaryTerms(result.text, glossary).text : result.text;
+    } catch (error) {
+      console.error(`Error getting transcription for ${context}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('API key not valid')) {
+        this.setGlobalStatus('API Key is invalid. Please update it.', false, true);
+        this.handleUpdateApiKey();
+        this.disableAppFeatures();
+      } else {
+        this.setGlobalStatus(`Error transcribing ${context}.`, false, true);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Polishes the transcript in `mode`. The result replaces the active rendition, or with `asNewRendition`
+   * is added next to it. Resolves to whether a polished note was produced.
+   */
+  private async getPolishedNote(
+    mode: Mode = this.modes.get(this.currentModeId) || BUILT_IN_MODES.journal,
+    asNewRendition = false,
+  ): Promise<boolean> {
+    try {
+      if (!this.allRawLapText.trim()) {
+        this.setGlobalStatus('No transcription to polish');
+        this.polishedNote.innerHTML = '<p><em>No transcription available to polish.</em></p>';
+        this.polishedNote.classList.add('placeholder-active');
+        return false;
+      }
+      this.setGlobalStatus(asNewRendition ? `Polishing as ${mode.name}...` : 'Polishing note...', true);
+      const ianaTimezone = this.getIanaTimezone(this.currentTimezone);
+      const location = this.currentTimezone;
+      const noteTimestamp = this.currentNote ? this.currentNote.timestamp : Date.now();
+      const timestamp = new Date(noteTimestamp).toLocaleString('en-US', {
+          timeZone: ianaTimezone, dateStyle: 'full', timeStyle: 'short',
+      });
+
+      const glossarySection = glossaryPromptSection(this.glossary.forMode(mode.id));
+      let polishedText: string;
+      let clinicalNote: ClinicalNote | undefined;
+      let streamError: unknown = null;
+      if (mode.structuredOutput === 'clinicalNote') {
+        clinicalNote = await this.getStructuredClinicalNote(mode.id, location, timestamp, glossarySection);
+        polishedText = renderClinicalNoteMarkdown(clinicalNote, location, timestamp);
+      } else {
+        const prompt = `You are a specialized AI assistant that transforms raw audio transcription into a specific, structured format based on the user's selected 'mode'.
+
+Your task is to follow the instructions for the selected mode precisely and generate a markdown response.
+The note MUST begin with the provided location and timestamp.
+Do not add any commentary before or after the markdown content.
+
+Location: ${location}
+Timestamp: ${timestamp}
+Mode: ${mode.name}
+Instructions:
+${mode.instructions}
+${glossarySection ? `\n${glossarySection}\n` : ''}
+---
+
+Raw transcription (from multiple laps):
+${this.getTranscriptForPrompt()}`;
+
+        const streamed = await this.streamPolishedText(mode.id, provider => provider.streamText(prompt));
+        polishedText = streamed.text;
+        if (streamed.error) {
+          if (!polishedText.trim()) throw streamed.error;
+          streamError = streamed.error; // Flagged on the note and shown above it; the text stays as the model wrote it
+        }
+      }
+
+      if (polishedText) {
+        if (this.currentNote) {
+          this.commitUserVersion(); // Edits to the polish being replaced stay in the history
+          if (asNewRendition) this.keepCurrentRendition(this.currentNote);
+          this.currentNote.polishedNote = polishedText;
+          this.currentNote.clinicalNote = clinicalNote;
+          this.currentNote.polishIncomplete = streamError ? true : undefined;
+          this.currentNote.polishEdited = undefined;
+          this.currentNote.modeId = mode.id;
+          this.currentNote.modeRef = this.modes.toRef(mode);
+          this.fileRendition(this.currentNote, mode, asNewRendition);
+          this.appendPolishedVersion(this.currentNote, 'ai');
+        }
+        this.showPolishedMarkdown(polishedText);
+        if (streamError) {
+          console.error('Polishing stream failed partway:', streamError);
+          this.setGlobalStatus('Polishing interrupted. Partial note kept.', false, true);
+          return true;
+        }
+        this.setGlobalStatus(asNewRendition ? `Added ${mode.name} rendition.` : 'Note polished.');
+        if (this.autoDownloadEnabled) {
+          // Add a small delay so the user can see the status change before download
+          setTimeout(() => this.downloadPolishedNote(), 500);
+        }
+        return true;
+      } else {
+        this.setGlobalStatus('Polishing failed or returned empty.', false, true);
+        this.polishedNote.innerHTML = '<p><em>Polishing returned empty. Raw transcription is available.</em></p>';
+        this.polishedNote.classList.add('placeholder-active');
+        return false;
+      }
+    } catch (error) {
+      console.error('Error polishing note:', error);
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('API key not valid')) {
+        this.setGlobalStatus('API Key is invalid. Please update it.', false, true);
+        this.handleUpdateApiKey();
+        this.disableAppFeatures();
+      } else {
+        this.setGlobalStatus('Error polishing note. Please try again.', false, true);
+      }
+      this.polishedNote.innerHTML = `<p><em>Error during polishing: ${message}</em></p>`;
+      this.polishedNote.classList.add('placeholder-active');
+      return false;
+    } finally {
+        this.updateMetadataDisplay();
+        this.initMoreMenu(); // Re-init to show exports that depend on the result
+        await this.saveCurrentNote();
+    }
+  }
+
+  /**
+   * Streams a polish into the Polished tab as chunks arrive. `toMarkdown` turns the text so far
+   * into what is shown, or null to leave the view as it is. Never throws: a failure is returned
+   * alongside whatever text arrived before it.
+   */
+  private async streamPolishedText(
+      modeId: ModeID,
+      request: (provider: PolishingProvider) => AsyncGenerator<PolishChunk>,
+      toMarkdown: (text: string) => string | null = text => text,
+  ): Promise<{ text: string; error: unknown }> {
+    let text = '';
+    let error: unknown = null;
+    let usage: TokenUsage | undefined;
+    let streaming = true;
+    let renderPending = false;
+    const render = () => {
+      renderPending = false;
+      if (!streaming) return; // The caller renders the final text
+      const markdown = toMarkdown(text);
+      if (markdown === null) return;
+      this.polishedNote.innerHTML = marked.parse(markdown, { async: false });
+      this.polishedSource.value = markdown;
+    };
+
+    const provider = this.getPolishingProvider();
+    try {
+      let started = false;
+      for await (const chunk of request(provider)) {
+        if (!started) {
+          started = true;
+          this.polishedNote.innerHTML = '';
+          this.polishedNote.classList.remove('placeholder-active');
+          this.polishedNote.classList.add('streaming');
+          this.setPolishedEditingEnabled(false);
+        }
+        // Each chunk carries the running usage totals; the last one seen is the final count.
+        if (chunk.usage) usage = chunk.usage;
+        const piece = chunk.text;
+        if (!piece) continue;
+        text += piece;
+        // Batch re-renders to one per frame; re-parsing on every chunk is wasted work.
+        if (!renderPending) {
+          renderPending = true;
+          requestAnimationFrame(render);
+        }
+      }
+    } catch (e) {
+      error = e;
+    } finally {
+      streaming = false;
+      this.polishedNote.classList.remove('streaming');
+      this.setPolishedEditingEnabled(true);
+      this.addTokenUsage('polishing', modeId, usage, provider);
+    }
+    return { text, error };
+  }
+
+  /** Asks for the doctor's note as JSON matching CLINICAL_NOTE_SCHEMA, filling in its sections as they stream in. */
+  private async getStructuredClinicalNote(modeId: ModeID, location: string, timestamp: string, glossarySection: string): Promise<ClinicalNote> {
+    const prompt = `${CLINICAL_NOTE_EXTRACTION_INSTRUCTIONS}
+${glossarySection ? `\n${glossarySection}\n` : ''}
+Location: ${location}
+Timestamp: ${timestamp}
+
+---
+
+Raw transcription (from multiple laps):
+${this.getTranscriptForPrompt()}`;
+
+    const streamed = await this.streamPolishedText(modeId, provider => provider.streamJson(prompt, CLINICAL_NOTE_SCHEMA), text => {
+      const partial = parsePartialJson(stripJsonFence(text));
+      return partial === undefined ? null : renderClinicalNoteMarkdown(normalizeClinicalNote(partial), location, timestamp);
+    });
+    if (streamed.error) throw streamed.error; // A cut-off note would be missing whole sections
+    const json = stripJsonFence(streamed.text);
+    if (!json) throw new Error('The model returned an empty clinical note.');
+    try {
+      return normalizeClinicalNote(JSON.parse(json));
+    } catch {
+      throw new Error('The model returned a clinical note that is not valid JSON.');
+    }
+  }
+
+  /** Shows a newly polished or loaded note in both editor views and starts a fresh undo history from it. */
+  private showPolishedMarkdown(markdown: string): void {
+    this.renderPolishedNote(markdown);
+    this.incompleteNotice.style.display = this.currentNote?.polishIncomplete ? 'flex' : 'none';
+    this.polishedSource.value = markdown;
+    if (this.editSnapshotTimerId) clearTimeout(this.editSnapshotTimerId);
+    this.editSnapshotTimerId = null;
+    this.editHistory = [markdown];
+    this.editHistoryIndex = 0;
+    this.updateEditControls();
+    this.renderRenditionSelect();
+  }
+
+  private renderPolishedNote(markdown: string): void {
+    if (markdown.trim()) {
+      this.polishedNote.innerHTML = marked.parse(markdown, { async: false });
+      this.polishedNote.classList.remove('placeholder-active');
+    } else {
+      this.polishedNote.innerHTML = this.polishedNote.getAttribute('placeholder') || '';
+      this.polishedNote.classList.add('placeholder-active');
+    }
+  }
+
+  /** Writes an edit from either view back into the note and mirrors it into the other view. */
+  private handlePolishedInput(origin: 'rendered' | 'source'): void {
+    if (!this.currentNote || this.polishedNote.classList.contains('streaming')) return;
+    let markdown: string;
+    if (origin === 'rendered') {
+      // Typing over a status message such as "Polishing returned empty." is not an edit to the note.
+      if (this.polishedNote.classList.contains('placeholder-active')) return;
+      markdown = htmlToMarkdown(this.polishedNote);
+      this.polishedSource.value = markdown;
+    } else {
+      markdown = this.polishedSource.value;
+      this.renderPolishedNote(markdown);
+    }
+    this.currentNote.polishedNote = markdown;
+    this.markPolishedEdited();
+    if (this.editSnapshotTimerId) clearTimeout(this.editSnapshotTimerId);
+    this.editSnapshotTimerId = window.setTimeout(() => this.commitEditSnapshot(), EDIT_SNAPSHOT_DELAY_MS);
+  }
+
+  private markPolishedEdited(): void {
+    if (!this.currentNote) return;
+    this.currentNote.polishEdited = true;
+    this.updateFhirButton();
+    this.setUnsavedEdits(true);
+    if (this.editSaveTimerId) clearTimeout(this.editSaveTimerId);
+    this.editSaveTimerId = window.setTimeout(() => {
+      this.editSaveTimerId = null;
+      void this.saveCurrentNote();
+    }, EDIT_SAVE_DELAY_MS);
+  }
+
+  /** Files and saves edits that are still waiting on a version or the save delay, before the note is replaced. */
+  private async flushPolishedEdits(): Promise<void> {
+    const versioned = this.commitUserVersion();
+    if (versioned || this.editSaveTimerId) await this.saveCurrentNote();
+  }
+
+  private commitEditSnapshot(): void {
+    if (this.editSnapshotTimerId) clearTimeout(this.editSnapshotTimerId);
+    this.editSnapshotTimerId = null;
+    const markdown = this.currentNote?.polishedNote ?? '';
+    if (markdown === this.editHistory[this.editHistoryIndex]) return;
+    this.editHistory = [...this.editHistory.slice(0, this.editHistoryIndex + 1), markdown].slice(-MAX_EDIT_HISTORY);
+    this.editHistoryIndex = this.editHistory.length - 1;
+    this.updateEditControls();
+  }
+
+  private undoPolishedEdit(): void {
+    this.commitEditSnapshot(); // Typing that has not paused yet becomes its own undo step
+    if (this.editHistoryIndex === 0) return;
+    this.editHistoryIndex--;
+    this.applyPolishedMarkdown(this.editHistory[this.editHistoryIndex]);
+  }
+
+  private redoPolishedEdit(): void {
+    this.commitEditSnapshot();
+    if (this.editHistoryIndex >= this.editHistory.length - 1) return;
+    this.editHistoryIndex++;
+    this.applyPolishedMarkdown(this.editHistory[this.editHistoryIndex]);
+  }
+
+  private applyPolishedMarkdown(markdown: string): void {
+    if (!this.currentNote || this.polishedNote.classList.contains('streaming')) return;
+    this.currentNote.polishedNote = markdown;
+    this.renderPolishedNote(markdown);
+    this.polishedSource.value = markdown;
+    this.markPolishedEdited();
+  }
+
+  /** Routes the undo and redo shortcuts to the note's history instead of the browser's per-view one. */
+  private handleEditorShortcut(e: KeyboardEvent): void {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      this.undoPolishedEdit();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      this.redoPolishedEdit();
+    }
+  }
+
+  private toggleSourceView(): void {
+    const showSource = this.polishedEditor.classList.toggle('split');
+    this.toggleSourceButton.classList.toggle('active', showSource);
+    this.toggleSourceButton.setAttribute('aria-pressed', String(showSource));
+    this.toggleSourceButton.title = showSource ? 'Hide Markdown Source' : 'Show Markdown Source';
+  }
+
+  private setPolishedEditingEnabled(enabled: boolean): void {
+    this.polishedNote.contentEditable = String(enabled);
+    this.polishedSource.readOnly = !enabled;
+    this.renditionSelect.disabled = !enabled;
+    this.repolishButton.disabled = !enabled;
+    this.refineButton.disabled = !enabled;
+    this.updateEditControls();
+  }
+
+  private setUnsavedEdits(unsaved: boolean): void {
+    this.hasUnsavedEdits = unsaved;
+    this.updateEditControls();
+  }
+
+  private updateEditControls(): void {
+    const editable = !this.polishedSource.readOnly;
+    const pending = (this.currentNote?.polishedNote ?? '') !== this.editHistory[this.editHistoryIndex];
+    this.undoEditButton.disabled = !editable || (this.editHistoryIndex === 0 && !pending);
+    this.redoEditButton.disabled = !editable || pending || this.editHistoryIndex >= this.editHistory.length - 1;
+    this.editStatus.textContent = this.hasUnsavedEdits ? 'Unsaved edits' : this.currentNote?.polishEdited ? 'Edited' : '';
+    this.editStatus.classList.toggle('dirty', this.hasUnsavedEdits);
+  }
+
+  /** Before a re-polish: saves edits to the active rendition, and files a note polished before renditions existed as one. */
+  private keepCurrentRendition(note: Note): void {
+    storeActiveRendition(note);
+    if (note.activeRenditionId || !note.polishedNote.trim()) return;
+    const id = `rendition_${note.timestamp}`;
+    note.renditions = [{
+      id,
+      name: note.modeRef?.name || this.getModeName(note),
+      createdAt: note.timestamp,
+      modeId: note.modeRef?.id ?? note.modeId,
+      modeRef: note.modeRef,
+      polishedNote: note.polishedNote,
+      clinicalNote: note.clinicalNote,
+      polishIncomplete: note.polishIncomplete,
+      polishEdited: note.polishEdited,
+    }];
+    note.activeRenditionId = id;
+    note.versions = note.versions?.map(version => (version.renditionId ? version : { ...version, renditionId: id }));
   }
 
-  private async getTranscription(base64Audio: string, mimeType: string, isUpload: boolean = false): Promise<string> {
-    const context = isUpload ? 'file' : `Lap ${this.lapCount}`;
-    try {
-      this.setGlobalStatus(`Transcribing ${context}...`, true);
-      const contents = {
-          parts: [
-            {text: 'Transcribe this audio with the following format:\n\n[TIMESTAMP] SPEAKER: exact spoken words\n\nInclude timestamps every 10-15 seconds, detect different speakers (Speaker 1, Speaker 2, etc.), mark pauses with [PAUSE], unclear words with [UNCLEAR], and background sounds with [BACKGROUND: description]. Capture everything exactly as spoken including filler words, repetitions, and false starts.'},
-            {inlineData: {mimeType: mimeType, data: base64Audio}},
-          ],
+  /** Stores the polish just written into the note as a new rendition, or as the refreshed active one. */
+  private fileRendition(note: Note, mode: Mode, asNew: boolean): void {
+    const active = asNew ? undefined : note.renditions?.find(rendition => rendition.id === note.activeRenditionId);
+    if (active) {
+      if (active.modeId !== mode.id) active.name = uniqueRenditionName(note, mode.name);
+      active.modeId = mode.id;
+      active.modeRef = note.modeRef;
+    } else {
+      const rendition: NoteRendition = {
+        id: `rendition_${Date.now()}`,
+        name: uniqueRenditionName(note, mode.name),
+        createdAt: Date.now(),
+        modeId: mode.id,
+        modeRef: note.modeRef,
+        polishedNote: '',
       };
-      const response = await this.genAI.models.generateContent({ model: MODEL_NAME, contents: contents });
-      
-      if (response.usageMetadata && this.currentNote) {
-        this.currentNote.promptTokens += response.usageMetadata.promptTokenCount ?? 0;
-        this.currentNote.completionTokens += response.usageMetadata.candidatesTokenCount ?? 0;
-        this.updateNoteCost();
-        this.updateMetadataDisplay();
-      }
-      return response.text;
-    } catch (error) {
-      console.error(`Error getting transcription for ${context}:`, error);
-      const message = error instanceof Error ? error.message : String(error);
-      if (message.includes('API key not valid')) {
-        this.setGlobalStatus('API Key is invalid. Please update it.', false, true);
-        this.handleUpdateApiKey();
-        this.disableAppFeatures();
-      } else {
-        this.setGlobalStatus(`Error transcribing ${context}.`, false, true);
-      }
-      return `[Error during transcription: ${message}]`;
+      note.renditions = [...(note.renditions ?? []), rendition];
+      note.activeRenditionId = rendition.id;
+    }
+    storeActiveRendition(note);
+  }
+
+  private renderRenditionSelect(): void {
+    const note = this.currentNote;
+    const renditions = note?.renditions ?? [];
+    this.renditionSelect.innerHTML = '';
+    renditions.forEach(rendition => {
+      const option = document.createElement('option');
+      option.value = rendition.id;
+      option.textContent = rendition.name;
+      option.selected = rendition.id === note?.activeRenditionId;
+      this.renditionSelect.appendChild(option);
+    });
+    this.renditionSelect.style.display = renditions.length > 1 ? 'block' : 'none';
+  }
+
+  private async switchRendition(renditionId: string): Promise<void> {
+    const note = this.currentNote;
+    const rendition = note?.renditions?.find(candidate => candidate.id === renditionId);
+    if (!note || !rendition || this.isBusy()) {
+      this.renderRenditionSelect(); // Puts the select back on the rendition that is still shown
+      return;
+    }
+    this.commitUserVersion();
+    activateRendition(note, rendition);
+    this.showPolishedMarkdown(note.polishedNote);
+    this.updateMetadataDisplay();
+    this.initMoreMenu(); // The FHIR export depends on the rendition's clinical note
+    await this.saveCurrentNote();
+  }
+
+  private openRepolishModal(): void {
+    this.closeMoreMenu();
+    if (!this.currentNote?.rawTranscription.trim()) {
+      this.setGlobalStatus('No transcription to re-polish.', false, true);
+      return;
     }
+    this.repolishModeSelect.innerHTML = '';
+    this.modes.getAll().forEach(mode => {
+      const option = document.createElement('option');
+      option.value = mode.id;
+      option.textContent = mode.name;
+      this.repolishModeSelect.appendChild(option);
+    });
+    // Suggest a mode the note has not been polished in yet.
+    const used = new Set((this.currentNote.renditions ?? []).map(rendition => rendition.modeId).concat(this.currentNote.modeId));
+    const suggestion = this.modes.getAll().find(mode => !used.has(mode.id));
+    if (suggestion) this.repolishModeSelect.value = suggestion.id;
+    this.repolishModal.style.display = 'flex';
   }
 
-  private async getPolishedNote(): Promise<void> {
+  private closeRepolishModal(): void {
+    this.repolishModal.style.display = 'none';
+  }
+
+  /** Polishes the saved transcript again in the chosen mode and keeps the result as a new rendition. */
+  private async repolishNote(): Promise<void> {
+    const mode = this.modes.get(this.repolishModeSelect.value);
+    const note = this.currentNote;
+    if (!mode || !note) return;
+    if (this.isBusy()) {
+      this.setGlobalStatus('Please wait for the current process to finish.');
+      return;
+    }
+    this.closeRepolishModal();
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
     try {
-      if (!this.allRawLapText.trim()) {
-        this.setGlobalStatus('No transcription to polish');
-        this.polishedNote.innerHTML = '<p><em>No transcription available to polish.</em></p>';
-        this.polishedNote.classList.add('placeholder-active');
-        return;
-      }
-      this.setGlobalStatus('Polishing note...', true);
-      const mode = MODES[this.currentModeId] || MODES.journal;
-      const ianaTimezone = this.getIanaTimezone(this.currentTimezone);
-      const location = this.currentTimezone;
-      const noteTimestamp = this.currentNote ? this.currentNote.timestamp : Date.now();
-      const timestamp = new Date(noteTimestamp).toLocaleString('en-US', {
-          timeZone: ianaTimezone, dateStyle: 'full', timeStyle: 'short',
+      const polished = await this.getPolishedNote(mode, true);
+      // On failure the rendition that was showing is left untouched, so bring it back.
+      if (!polished && this.currentNote === note) this.showPolishedMarkdown(note.polishedNote);
+    } finally {
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+    }
+  }
+
+  private appendPolishedVersion(
+    note: Note,
+    author: PolishedVersion['author'],
+    details: Pick<PolishedVersion, 'restoredFrom' | 'instruction'> = {},
+  ): void {
+    const versions = note.versions ?? [];
+    note.versions = [...versions, {
+      id: `version_${versions.length + 1}`,
+      timestamp: Date.now(),
+      author,
+      model: author === 'ai' ? note.models?.polishing : undefined,
+      modeId: note.modeId,
+      modeName: this.getModeName(note),
+      renditionId: note.activeRenditionId,
+      polishedNote: note.polishedNote,
+      ...details,
+    }];
+  }
+
+  /**
+   * Adds the polish as a user version when it differs from the rendition's latest version. A note from
+   * before version history gets its existing polish as the first version instead.
+   */
+  private commitUserVersion(): boolean {
+    const note = this.currentNote;
+    if (!note) return false;
+    const latest = getRenditionVersions(note).at(-1);
+    if (!latest) {
+      if (!note.polishedNote.trim()) return false;
+      this.appendPolishedVersion(note, note.polishEdited ? 'user' : 'ai');
+      return true;
+    }
+    if (latest.polishedNote === note.polishedNote) return false;
+    this.appendPolishedVersion(note, 'user');
+    return true;
+  }
+
+  /** Leaving the editor closes a round of edits, which becomes one version. */
+  private handleEditorBlur(): void {
+    if (this.polishedNote.classList.contains('streaming')) return;
+    if (this.commitUserVersion()) void this.saveCurrentNote();
+  }
+
+  private async openHistoryModal(): Promise<void> {
+    this.closeMoreMenu();
+    if (this.commitUserVersion()) await this.saveCurrentNote();
+    this.selectedVersionId = null;
+    this.historyCompareSelect.value = 'previous';
+    this.renderVersionHistory();
+    this.historyModal.style.display = 'flex';
+  }
+
+  private closeHistoryModal(): void {
+    this.historyModal.style.display = 'none';
+  }
+
+  private describeVersionAuthor(version: PolishedVersion, versions: PolishedVersion[]): string {
+    if (version.author === 'ai') {
+      const model = version.model ? ` (${version.model})` : '';
+      return version.instruction ? `AI refinement${model}: "${version.instruction}"` : `AI polish${model}`;
+    }
+    const source = versions.findIndex(candidate => candidate.id === version.restoredFrom);
+    return source >= 0 ? `Restored version ${source + 1}` : 'Edited by user';
+  }
+
+  private renderVersionHistory(): void {
+    const versions = this.currentNote ? getRenditionVersions(this.currentNote) : [];
+    if (!versions.some(version => version.id === this.selectedVersionId)) {
+      this.selectedVersionId = versions.at(-1)?.id ?? null;
+    }
+    this.historyList.innerHTML = '';
+    if (versions.length === 0) {
+      this.historyList.innerHTML = '<p class="library-empty">No versions yet. Polish a note to start its history.</p>';
+      this.historyDiff.innerHTML = '';
+      this.restoreVersionButton.disabled = true;
+      return;
+    }
+
+    versions.map((version, index) => ({ version, number: index + 1 })).reverse().forEach(({ version, number }) => {
+      const item = document.createElement('div');
+      item.className = 'library-item history-item';
+      if (version.id === this.selectedVersionId) item.classList.add('active');
+
+      const icon = document.createElement('i');
+      icon.className = `fas ${version.author === 'ai' ? 'fa-robot' : 'fa-user-edit'} history-item-icon`;
+      const info = document.createElement('div');
+      info.className = 'library-item-info';
+      const title = document.createElement('div');
+      title.className = 'library-item-title';
+      title.textContent = `Version ${number} · ${new Date(version.timestamp).toLocaleString(undefined, {
+          month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+          timeZone: this.getIanaTimezone(this.currentTimezone),
+      })}`;
+      const meta = document.createElement('div');
+      meta.className = 'library-item-meta';
+      meta.textContent = `${this.describeVersionAuthor(version, versions)} · ${version.modeName}`;
+      info.appendChild(title);
+      info.appendChild(meta);
+      item.appendChild(icon);
+      item.appendChild(info);
+      item.addEventListener('click', () => {
+        this.selectedVersionId = version.id;
+        this.renderVersionHistory();
       });
-      const prompt = `You are a specialized AI assistant that transforms raw audio transcription into a specific, structured format based on the user's selected 'mode'.
+      this.historyList.appendChild(item);
+    });
+    this.renderVersionDiff(versions);
+  }
 
-Your task is to follow the instructions for the selected mode precisely and generate a markdown response.
-The note MUST begin with the provided location and timestamp.
-Do not add any commentary before or after the markdown content.
+  /** Shows what the selected version changed from the one before it, or how the note differs from it now. */
+  private renderVersionDiff(versions: PolishedVersion[]): void {
+    const note = this.currentNote;
+    const index = versions.findIndex(version => version.id === this.selectedVersionId);
+    if (!note || index < 0) return;
+    const version = versions[index];
+    const [before, after] = this.historyCompareSelect.value === 'current'
+      ? [version.polishedNote, note.polishedNote]
+      : [versions[index - 1]?.polishedNote ?? '', version.polishedNote];
+
+    this.historyDiff.innerHTML = '';
+    const ops = diffPolishedNotes(before, after);
+    if (!ops.some(op => op.kind !== 'same')) {
+      const empty = document.createElement('p');
+      empty.className = 'library-empty';
+      empty.textContent = 'No differences.';
+      this.historyDiff.appendChild(empty);
+    } else {
+      ops.forEach(op => {
+        const span = document.createElement(op.kind === 'added' ? 'ins' : op.kind === 'removed' ? 'del' : 'span');
+        span.textContent = op.text;
+        this.historyDiff.appendChild(span);
+      });
+    }
+    this.restoreVersionButton.disabled = this.isBusy() || version.polishedNote === note.polishedNote;
+  }
 
-Location: ${location}
-Timestamp: ${timestamp}
-Mode: ${mode.name}
-Instructions:
-${mode.instructions}
+  /** Brings an older version back as the current polish. The restore is itself added to the history. */
+  private restoreVersion(): void {
+    const note = this.currentNote;
+    const versions = note ? getRenditionVersions(note) : [];
+    const version = versions.find(candidate => candidate.id === this.selectedVersionId);
+    if (!note || !version || this.isBusy()) return;
+    this.commitUserVersion();
+    this.applyPolishedMarkdown(version.polishedNote);
+    // Back to exactly what the last polish wrote (not a refinement of it), so clinicalNote matches the note again.
+    const polished = getRenditionVersions(note).filter(candidate => candidate.author === 'ai' && !candidate.instruction).at(-1);
+    if (polished?.polishedNote === version.polishedNote) {
+      note.polishEdited = undefined;
+      this.updateFhirButton();
+      this.updateEditControls();
+    }
+    this.commitEditSnapshot();
+    this.appendPolishedVersion(note, 'user', { restoredFrom: version.id });
+    this.renderVersionHistory();
+    this.setGlobalStatus(`Restored version ${versions.indexOf(version) + 1}.`);
+  }
 
+  /** The note so far as the model's own reply, so the instruction reads as a follow-up to it. */
+  private buildRefinementConversation(note: Note, instruction: string): ChatTurn[] {
+    const mode = this.modes.get(note.modeId);
+    // A structured note was extracted as JSON, but refining rewrites its markdown, so it follows the markdown template.
+    const modeInstructions = note.clinicalNote || mode?.structuredOutput === 'clinicalNote'
+      ? DOCTOR_MODE_INSTRUCTIONS
+      : note.modeRef?.instructions ?? mode?.instructions;
+    const glossarySection = glossaryPromptSection(this.glossary.forMode(note.modeId));
+    const context = `You are a specialized AI assistant that turned a raw audio transcription into the markdown note in your reply below. The user will now ask for changes to that note.
+
+Apply the requested change and reply with the complete updated note in markdown. Keep everything the user did not ask to change exactly as it is, and only add facts that are supported by the raw transcription.
+Do not add any commentary before or after the markdown content.
+${modeInstructions ? `\nThe note was written following these instructions:\n${modeInstructions}\n` : ''}${glossarySection ? `\n${glossarySection}\n` : ''}
 ---
 
 Raw transcription (from multiple laps):
-${this.allRawLapText}`;
-      
-      const response = await this.genAI.models.generateContent({ model: MODEL_NAME, contents: prompt });
+${this.getTranscriptForPrompt()}`;
+    return [
+      { role: 'user', text: context },
+      { role: 'model', text: note.polishedNote },
+      { role: 'user', text: instruction },
+    ];
+  }
 
-      if (response.usageMetadata && this.currentNote) {
-        this.currentNote.promptTokens += response.usageMetadata.promptTokenCount ?? 0;
-        this.currentNote.completionTokens += response.usageMetadata.candidatesTokenCount ?? 0;
-        this.updateNoteCost();
-      }
-      const polishedText = response.text;
-      if (polishedText) {
-        const htmlContent = await marked.parse(String(polishedText));
-        this.polishedNote.innerHTML = htmlContent;
-        this.polishedNote.classList.remove('placeholder-active');
-        if (this.currentNote) this.currentNote.polishedNote = polishedText;
-        this.setGlobalStatus('Note polished.');
-        if (this.autoDownloadEnabled) {
-          // Add a small delay so the user can see the status change before download
-          setTimeout(() => this.downloadPolishedNote(), 500);
-        }
-      } else {
-        this.setGlobalStatus('Polishing failed or returned empty.', false, true);
-        this.polishedNote.innerHTML = '<p><em>Polishing returned empty. Raw transcription is available.</em></p>';
-        this.polishedNote.classList.add('placeholder-active');
-      }
+  /** Sends the refine box's instruction with the note and transcript; the reply becomes the note's next version. */
+  private async refinePolishedNote(): Promise<void> {
+    const instruction = this.refineInput.value.trim();
+    const note = this.currentNote;
+    if (!instruction || !note) return;
+    if (!note.polishedNote.trim()) {
+      this.setGlobalStatus('Polish a note before refining it.', false, true);
+      return;
+    }
+    if (this.isBusy()) {
+      this.setGlobalStatus('Please wait for the current process to finish.');
+      return;
+    }
+
+    this.isProcessing = true;
+    this.fabRecord.disabled = true;
+    this.commitUserVersion(); // Edits made before the request stay in the history
+    this.setGlobalStatus('Refining note...', true);
+    try {
+      const conversation = this.buildRefinementConversation(note, instruction);
+      const streamed = await this.streamPolishedText(note.modeId, provider => provider.streamText(conversation));
+      // A partial reply would silently drop the rest of the note, so it is never kept.
+      if (streamed.error) throw streamed.error;
+      const refined = streamed.text.trim();
+      if (!refined) throw new Error('The model returned an empty note.');
+      this.applyPolishedMarkdown(refined);
+      this.commitEditSnapshot();
+      this.appendPolishedVersion(note, 'ai', { instruction });
+      this.refineInput.value = '';
+      this.setGlobalStatus('Note refined.');
     } catch (error) {
-      console.error('Error polishing note:', error);
+      console.error('Error refining note:', error);
+      this.renderPolishedNote(note.polishedNote);
+      this.polishedSource.value = note.polishedNote;
       const message = error instanceof Error ? error.message : String(error);
       if (message.includes('API key not valid')) {
         this.setGlobalStatus('API Key is invalid. Please update it.', false, true);
         this.handleUpdateApiKey();
         this.disableAppFeatures();
       } else {
-        this.setGlobalStatus('Error polishing note. Please try again.', false, true);
+        this.setGlobalStatus('Error refining note. Please try again.', false, true);
       }
-      this.polishedNote.innerHTML = `<p><em>Error during polishing: ${message}</em></p>`;
-      this.polishedNote.classList.add('placeholder-active');
     } finally {
-        this.updateMetadataDisplay();
+      this.isProcessing = false;
+      this.fabRecord.disabled = false;
+      this.updateMetadataDisplay();
+      await this.saveCurrentNote();
+    }
+  }
+
+  /** Records which model ran the step, adds the request's tokens and cost to the note and logs it under `modeId` in the usage ledger. */
+  private addTokenUsage(step: AiStep, modeId: ModeID, usage: TokenUsage | undefined, provider: TranscriptionProvider | PolishingProvider): void {
+    if (!this.currentNote) return;
+    const model = provider.selfHosted ? `${provider.model} (self-hosted)` : provider.model;
+    this.currentNote.models = { ...this.currentNote.models, [step]: model };
+    const promptTokens = usage?.promptTokenCount ?? 0;
+    const completionTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+    this.currentNote.promptTokens += promptTokens;
+    this.currentNote.completionTokens += completionTokens;
+    let cost = 0;
+    if (usage) {
+      const pricing = provider.selfHosted ? undefined : this.pricingTable.find(provider.model);
+      if (!provider.selfHosted && !pricing) {
+        console.warn(`${provider.model} is not in the pricing table; its requests are counted as free.`);
+      }
+      cost = this.updateNoteCost(usage, pricing);
     }
+    this.recordUsage(step, modeId, model, promptTokens, completionTokens, cost);
   }
 
   private setButtonState(button: HTMLButtonElement, state: 'success' | 'error'): void {
@@ -1855,13 +7784,15 @@ ${this.allRawLapText}`;
   }
 
   private async copyPolishedNote(): Promise<void> {
-    if (this.polishedNote.classList.contains('placeholder-active') || this.polishedNote.innerText.trim() === '') {
+    const markdown = this.currentNote?.polishedNote ?? '';
+    if (this.polishedNote.classList.contains('placeholder-active') || !markdown.trim()) {
       console.warn('No polished note content to copy.');
       return;
     }
     
     try {
-      const htmlBlob = new Blob([this.polishedNote.innerHTML], { type: 'text/html' });
+      // Rendered from the saved markdown so stray markup left by editing never reaches the clipboard.
+      const htmlBlob = new Blob([marked.parse(markdown, { async: false })], { type: 'text/html' });
       const textBlob = new Blob([this.polishedNote.innerText], { type: 'text/plain' });
       const item = new ClipboardItem({ 'text/html': htmlBlob, 'text/plain': textBlob });
       await navigator.clipboard.write([item]);
@@ -1879,8 +7810,8 @@ ${this.allRawLapText}`;
   }
 
   private async copyRawTranscription(): Promise<void> {
-    const rawText = this.rawTranscription.textContent?.trim() || '';
-    if (this.rawTranscription.classList.contains('placeholder-active') || rawText === '') {
+    const rawText = this.getTranscriptForPrompt().trim();
+    if (rawText === '') {
         console.warn('No raw transcription content to copy.');
         return;
     }
@@ -1899,15 +7830,18 @@ ${this.allRawLapText}`;
           console.warn('No metadata to copy.');
           return;
       }
-      const { timestamp, audioSize, modeId, cost } = this.currentNote;
+      const { timestamp, audioSize, cost } = this.currentNote;
       
       const metaString = [
           `Date & Time: ${new Date(timestamp).toLocaleString(undefined, { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone: this.getIanaTimezone(this.currentTimezone)})}`,
           `Recording Duration: ${this.formatDuration(this.totalDurationMs || this.currentNote.duration)}`,
           `Audio File Size: ${this.formatBytes(audioSize)}`,
-          `Processing Mode: ${MODES[modeId].name}`,
-          `Estimated Cost (USD): $${cost.toFixed(5)}`
-      ].join('\n');
+          `Processing Mode: ${this.getModeName(this.currentNote)}`,
+          `Transcription Model: ${this.currentNote.models?.transcription ?? '--'}`,
+          `Polishing Model: ${this.currentNote.models?.polishing ?? '--'}`,
+          `Estimated Cost (USD): $${cost.toFixed(5)}`,
+          this.describeCostBreakdown(this.currentNote),
+      ].filter(Boolean).join('\n');
 
       try {
           await navigator.clipboard.writeText(metaString);
@@ -1987,6 +7921,155 @@ ${this.allRawLapText}`;
     this.setButtonState(this.downloadNoteButton, 'success');
   }
 
+  /** De-identifies the current note for teaching or a second opinion. Dates move by the same random shift throughout. */
+  private openDeidentifyModal(): void {
+    this.closeMoreMenu();
+    const note = this.currentNote;
+    if (!note || (!note.polishedNote.trim() && !note.rawTranscription.trim())) {
+      this.setGlobalStatus('Nothing to de-identify yet.', false, true);
+      return;
+    }
+    // 30 to 365 days either way, so a shifted date can't be mistaken for the real one.
+    const dateShiftDays = (30 + Math.floor(Math.random() * 336)) * (Math.random() < 0.5 ? -1 : 1);
+    // The header table is read too, as the doctor may have corrected it after polishing.
+    const patients = [note.clinicalNote?.patient ?? {}, readPatientTable(note.polishedNote)];
+    const speakerNames = Object.values(note.speakerNames ?? {}).map(name => name.trim()).filter(name => name && !SPEAKER_ROLE_PATTERN.test(name));
+    this.deidentified = deidentifyNote(
+      note.polishedNote, this.getTranscriptForPrompt(), patients, speakerNames,
+      dateShiftDays, new Date(note.timestamp).getFullYear(),
+    );
+    this.deidentifyViewSelect.value = 'note';
+    this.deidentifyIncludeTranscriptToggle.checked = !note.polishedNote.trim();
+    this.renderDeidentifyPreview();
+    this.deidentifyModal.style.display = 'flex';
+  }
+
+  private closeDeidentifyModal(): void {
+    this.deidentifyModal.style.display = 'none';
+    // The report maps pseudonyms back to the patient, so it isn't kept once the modal closes.
+    this.deidentified = null;
+    this.deidentifyPreview.textContent = '';
+  }
+
+  private renderDeidentifyPreview(): void {
+    const result = this.deidentified;
+    if (!result) return;
+    const view = this.deidentifyViewSelect.value;
+    const text = view === 'report' ? this.buildRedactionReport(result)
+      : view === 'transcript' ? result.rawTranscription
+      : result.polishedNote;
+    this.deidentifyPreview.textContent = text.trim() || 'Nothing here for this note.';
+  }
+
+  private buildRedactionReport(result: DeidentifiedNote): string {
+    const createdAt = new Date().toLocaleString(undefined, { timeZone: this.getIanaTimezone(this.currentTimezone) });
+    return renderRedactionReport(result, createdAt);
+  }
+
+  /** The markdown that is shared: the de-identified note, followed by the transcript when it is included. */
+  private buildDeidentifiedExport(result: DeidentifiedNote): string {
+    const sections = [result.polishedNote.trim()];
+    if (this.deidentifyIncludeTranscriptToggle.checked && result.rawTranscription.trim()) {
+      sections.push(`## Raw Transcript\n\n${result.rawTranscription.trim()}`);
+    }
+    return sections.filter(Boolean).join('\n\n---\n\n');
+  }
+
+  private async copyDeidentifiedNote(): Promise<void> {
+    if (!this.deidentified) return;
+    const markdown = this.buildDeidentifiedExport(this.deidentified);
+    if (!markdown) {
+      this.setGlobalStatus('Nothing to copy. Include the transcript or polish the note first.', false, true);
+      return;
+    }
+    try {
+      const htmlBlob = new Blob([marked.parse(markdown, { async: false })], { type: 'text/html' });
+      const textBlob = new Blob([markdown], { type: 'text/plain' });
+      await navigator.clipboard.write([new ClipboardItem({ 'text/html': htmlBlob, 'text/plain': textBlob })]);
+      this.setGlobalStatus('De-identified note copied.');
+    } catch (err) {
+      console.error('Failed to copy rich text, falling back to plain text: ', err);
+      try {
+        await navigator.clipboard.writeText(markdown);
+        this.setGlobalStatus('De-identified note copied.');
+      } catch (fallbackErr) {
+        console.error('Failed to copy de-identified note: ', fallbackErr);
+        this.setGlobalStatus('Could not copy the de-identified note.', false, true);
+      }
+    }
+  }
+
+  private downloadDeidentifiedNote(): void {
+    if (!this.deidentified) return;
+    const markdown = this.buildDeidentifiedExport(this.deidentified);
+    if (!markdown) {
+      this.setGlobalStatus('Nothing to download. Include the transcript or polish the note first.', false, true);
+      return;
+    }
+    // Named for the export time, as the consultation date would undo the date shift.
+    this.downloadMarkdownFile(markdown, `voicenote-deidentified-${new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '')}.md`);
+  }
+
+  private downloadRedactionReport(): void {
+    if (!this.deidentified) return;
+    const markdown = this.buildRedactionReport(this.deidentified);
+    this.downloadMarkdownFile(markdown, `voicenote-redaction-report-${new Date().toISOString().slice(0, 19).replace(/[-:T]/g, '')}.md`);
+  }
+
+  private downloadMarkdownFile(markdown: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }));
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  }
+
+  private downloadFhirBundle(): void {
+    const note = this.currentNote;
+    const showError = (message: string) => {
+      this.setButtonState(this.downloadFhirButton, 'error');
+      this.setGlobalStatus(message, false, true);
+    };
+    if (!note || !note.clinicalNote) {
+      showError("FHIR export needs a note polished in Doctor's Note mode.");
+      return;
+    }
+    if (note.polishEdited) {
+      showError('FHIR export is built from the note as it was polished and would leave out your edits. Re-polish the note to export it.');
+      return;
+    }
+
+    const bundle = buildFhirBundle({
+      noteId: note.id,
+      clinicalNote: note.clinicalNote,
+      timestamp: note.timestamp,
+      durationMs: note.duration,
+      ianaTimezone: this.getIanaTimezone(this.currentTimezone),
+    });
+    const errors = validateFhirBundle(bundle);
+    if (errors.length > 0) {
+      console.error('FHIR bundle failed validation:', errors);
+      showError('FHIR export failed validation.');
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json;charset=utf-8' });
+    const timestamp = new Date(note.timestamp).toISOString().slice(0, 19).replace(/[-:T]/g, '');
+    const filename = `voicenote-${timestamp}.fhir.json`;
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+
+    this.setButtonState(this.downloadFhirButton, 'success');
+  }
+
   private formatDuration(ms: number): string {
     if (ms <= 0) return '00:00';
     const totalSeconds = Math.floor(ms / 1000);
@@ -2004,20 +8087,49 @@ ${this.allRawLapText}`;
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
   }
 
-  private updateNoteCost(): void {
-    if (!this.currentNote) return;
-    const { promptTokens, completionTokens } = this.currentNote;
-    const promptCost = (promptTokens / 1000) * COST_PER_1K_PROMPT_TOKENS;
-    const completionCost = (completionTokens / 1000) * COST_PER_1K_COMPLETION_TOKENS;
-    this.currentNote.cost = promptCost + completionCost;
+  /**
+   * Adds the cost of one request and returns it; rates differ per model and modality,
+   * so cost can't be derived from the note's token totals.
+   */
+  private updateNoteCost(usage: TokenUsage, pricing: ModelPricing | undefined): number {
+    if (!this.currentNote) return 0;
+    const requestCost = priceUsage(usage, pricing);
+    const breakdown = this.currentNote.costBreakdown ?? { audioInput: 0, textInput: 0, output: 0 };
+    breakdown.audioInput += requestCost.audioInput;
+    breakdown.textInput += requestCost.textInput;
+    breakdown.output += requestCost.output;
+    this.currentNote.costBreakdown = breakdown;
+    const cost = requestCost.audioInput + requestCost.textInput + requestCost.output;
+    this.currentNote.cost += cost;
+    return cost;
   }
   
+  /** E.g. "Audio input $0.00100 · Text input $0.00020 · Output $0.00300"; empty for notes priced before the split. */
+  private describeCostBreakdown(note: Note): string {
+    const breakdown = note.costBreakdown;
+    if (!breakdown) return '';
+    return `Audio input $${breakdown.audioInput.toFixed(5)} · Text input $${breakdown.textInput.toFixed(5)} · Output $${breakdown.output.toFixed(5)}`;
+  }
+
+  /** The FHIR bundle comes from the structured note, so it is only offered while the polished note is unedited. */
+  private updateFhirButton(): void {
+    const note = this.currentNote;
+    this.downloadFhirButton.disabled = !note?.clinicalNote || !!note.polishEdited;
+    this.downloadFhirButton.title = note?.clinicalNote && note.polishEdited
+      ? 'FHIR export is unavailable after editing the note; re-polish to export'
+      : "Export FHIR R4 Bundle (Doctor's Note)";
+  }
+
   private resetMetadataDisplay(): void {
+    this.downloadFhirButton.disabled = true;
     this.metaDatetime.querySelector('span')!.textContent = '--';
     this.metaDuration.querySelector('span')!.textContent = '--';
     this.metaSize.querySelector('span')!.textContent = '--';
     this.metaMode.querySelector('span')!.textContent = '--';
+    this.metaModels.querySelector('span')!.textContent = '--';
+    this.metaModels.title = 'Models';
     this.metaCost.querySelector('span')!.textContent = '$0.00000';
+    this.metaCost.title = 'Estimated Cost (USD)';
   }
 
   private updateMetadataDisplay(isLive: boolean = false): void {
@@ -2025,7 +8137,7 @@ ${this.allRawLapText}`;
         this.resetMetadataDisplay();
         return;
     };
-    const { timestamp, audioSize, modeId, cost } = this.currentNote;
+    const { timestamp, audioSize, cost } = this.currentNote;
     const dtSpan = this.metaDatetime.querySelector('span')!;
     dtSpan.textContent = new Date(timestamp).toLocaleString(undefined, {
         year: 'numeric', month: 'long', day: 'numeric',
@@ -2038,9 +8150,16 @@ ${this.allRawLapText}`;
     const sizeSpan = this.metaSize.querySelector('span')!;
     sizeSpan.textContent = isLive ? '...' : this.formatBytes(audioSize);
     const modeSpan = this.metaMode.querySelector('span')!;
-    modeSpan.textContent = MODES[modeId].name;
+    modeSpan.textContent = this.getModeName(this.currentNote);
+    const { transcription, polishing } = this.currentNote.models ?? {};
+    const modelsSpan = this.metaModels.querySelector('span')!;
+    modelsSpan.textContent = [...new Set([transcription, polishing].filter(Boolean))].join(' / ') || '--';
+    this.metaModels.title = `Transcription: ${transcription ?? '--'}\nPolishing: ${polishing ?? '--'}`;
     const costSpan = this.metaCost.querySelector('span')!;
     costSpan.textContent = (cost > 0) ? `$${cost.toFixed(5)}` : '$0.00000';
+    this.metaCost.title = ['Estimated Cost (USD)', this.describeCostBreakdown(this.currentNote)].filter(Boolean).join('\n');
+    this.metaCost.classList.toggle('over-budget', this.isOverBudget());
+    this.updateFhirButton();
     if(this.currentNote) this.currentNote.duration = this.totalDurationMs;
   }
 
@@ -2054,8 +8173,9 @@ ${this.allRawLapText}`;
         this.stream.getTracks().forEach(track => track.stop());
         this.stream = null;
     }
-    this.mediaRecorder = null;
+    this.activeRecorder = null;
     this.updateMetadataDisplay();
+    this.loadPlaybackAudio();
   }
 
   private setLiveControls(enabled: boolean): void {
@@ -2068,6 +8188,7 @@ ${this.allRawLapText}`;
     if(this.isRecording) {
         this.stopFullRecordingSession();
     }
+    void this.flushPolishedEdits();
 
     this.currentNote = {
       id: `note_${Date.now()}`,
@@ -2083,21 +8204,235 @@ ${this.allRawLapText}`;
     };
     
     this.allRawLapText = '';
+    this.lapSegments = [];
+    this.renderLapRetryBar();
     this.totalDurationMs = 0;
+    this.sessionAudioChunks = [];
+    this.sessionAudioStartMs = [];
+    this.sessionMimeType = '';
     this.downloadAudioButton.disabled = true;
 
-    const rawPlaceholder = this.rawTranscription.getAttribute('placeholder') || '';
-    this.rawTranscription.textContent = rawPlaceholder;
-    this.rawTranscription.classList.add('placeholder-active');
-    const polishedPlaceholder = this.polishedNote.getAttribute('placeholder') || '';
-    this.polishedNote.innerHTML = polishedPlaceholder;
-    this.polishedNote.classList.add('placeholder-active');
+    this.renderRawTranscript(); // Shows the placeholder: there are no laps or text yet
+    this.showPolishedMarkdown('');
 
     this.resetMetadataDisplay();
     this.setGlobalStatus('Ready to record');
     this.resetToIdleState();
     this.initMoreMenu();
   }
+
+  private async saveCurrentNote(): Promise<void> {
+    const note = this.currentNote;
+    if (this.editSaveTimerId) {
+      clearTimeout(this.editSaveTimerId); // This save covers the pending edits
+      this.editSaveTimerId = null;
+    }
+    const hasFailedLaps = this.getFailedLaps().length > 0;
+    // A note whose laps all failed has no text yet, but is kept so its laps can be retried.
+    if (!note || (!note.rawTranscription.trim() && !note.polishedNote.trim() && !hasFailedLaps)) return;
+    storeActiveRendition(note);
+    note.pendingLaps = hasFailedLaps ? this.lapSegments.map(({ blob, ...lap }) => lap) : undefined;
+
+    // Re-encrypting hours of audio on every save would stall typing; only write it when it has changed.
+    const audioSignature = this.getAudioSignature(note.id);
+    const audio: StoredAudio | null = this.sessionAudioChunks.length > 0 && audioSignature !== this.savedAudioSignature
+      ? {
+          noteId: note.id,
+          blob: new Blob(this.sessionAudioChunks, { type: this.sessionMimeType }),
+          mimeType: this.sessionMimeType,
+          parts: this.sessionAudioChunks.map((chunk, index) => ({ startMs: this.sessionAudioStartMs[index] ?? 0, bytes: chunk.size })),
+        }
+      : null;
+    try {
+      await this.noteStore.saveNote(note, audio);
+      if (audio) this.savedAudioSignature = audioSignature;
+      if (note === this.currentNote && !this.editSaveTimerId) this.setUnsavedEdits(false);
+    } catch (error) {
+      console.error('Failed to save note to library:', error);
+      this.setGlobalStatus('Could not save note locally.', false, true);
+    }
+  }
+
+  /** Identifies the session audio of a note well enough to tell whether it changed since it was saved. */
+  private getAudioSignature(noteId: string): string {
+    const bytes = this.sessionAudioChunks.reduce((total, chunk) => total + chunk.size, 0);
+    return `${noteId}:${this.sessionMimeType}:${this.sessionAudioChunks.length}:${bytes}`;
+  }
+
+  private async openLibrary(): Promise<void> {
+    this.closeSettingsMenu();
+    this.closeMoreMenu();
+    this.libraryModal.style.display = 'flex';
+    await this.renderLibrary();
+  }
+
+  private closeLibrary(): void {
+    this.libraryModal.style.display = 'none';
+  }
+
+  private async renderLibrary(): Promise<void> {
+    let notes: Note[];
+    try {
+      notes = await this.noteStore.getAllNotes();
+    } catch (error) {
+      console.error('Failed to load note library:', error);
+      this.libraryList.innerHTML = '<p class="library-empty">Could not load saved notes.</p>';
+      return;
+    }
+
+    this.libraryList.innerHTML = '';
+    if (notes.length === 0) {
+      this.libraryList.innerHTML = '<p class="library-empty">No saved notes yet.</p>';
+      return;
+    }
+
+    notes.forEach(note => {
+      const item = document.createElement('div');
+      item.className = 'library-item';
+      if (note.id === this.currentNote?.id) item.classList.add('active');
+
+      const info = document.createElement('div');
+      info.className = 'library-item-info';
+      const title = document.createElement('div');
+      title.className = 'library-item-title';
+      title.textContent = new Date(note.timestamp).toLocaleString(undefined, {
+          year: 'numeric', month: 'short', day: 'numeric',
+          hour: 'numeric', minute: '2-digit',
+          timeZone: this.getIanaTimezone(this.currentTimezone),
+      });
+      const meta = document.createElement('div');
+      meta.className = 'library-item-meta';
+      meta.textContent = `${this.getModeName(note)} · ${this.formatDuration(note.duration)}`;
+      info.appendChild(title);
+      info.appendChild(meta);
+
+      const actions = document.createElement('div');
+      actions.className = 'library-item-actions';
+      const makeAction = (icon: string, label: string, handler: () => void) => {
+        const button = document.createElement('button');
+        button.className = 'mode-info-button';
+        button.title = label;
+        button.innerHTML = `<i class="fas ${icon}"></i>`;
+        button.addEventListener('click', (e) => {
+          e.stopPropagation();
+          handler();
+        });
+        actions.appendChild(button);
+      };
+      makeAction('fa-folder-open', 'Open in editor', () => this.loadNoteFromLibrary(note.id));
+      makeAction('fa-clone', 'Duplicate', () => this.duplicateLibraryNote(note.id));
+      makeAction('fa-trash', 'Delete', () => this.deleteLibraryNote(note.id));
+
+      item.addEventListener('click', () => this.loadNoteFromLibrary(note.id));
+      item.appendChild(info);
+      item.appendChild(actions);
+      this.libraryList.appendChild(item);
+    });
+  }
+
+  private async loadNoteFromLibrary(noteId: string): Promise<void> {
+    if (this.isRecording || this.isProcessing) {
+      this.setGlobalStatus('Please wait for the current process to finish.');
+      return;
+    }
+    try {
+      await this.flushPolishedEdits();
+      const note = await this.noteStore.getNote(noteId);
+      if (!note) {
+        this.setGlobalStatus('Note not found.', false, true);
+        await this.renderLibrary();
+        return;
+      }
+      const audio = await this.noteStore.getAudio(noteId);
+
+      this.currentNote = { ...note };
+      this.allRawLapText = note.rawTranscription;
+      this.lapSegments = await this.restorePendingLaps(note);
+      this.renderLapRetryBar();
+      this.totalDurationMs = note.duration;
+      this.sessionAudioChunks = [];
+      this.sessionAudioStartMs = [];
+      if (audio) {
+        // Cut the blob back into its laps: each was encoded on its own and only plays back alone.
+        let offset = 0;
+        (audio.parts ?? [{ startMs: 0, bytes: audio.blob.size }]).forEach(part => {
+          this.sessionAudioChunks.push(audio.blob.slice(offset, offset + part.bytes, audio.mimeType));
+          this.sessionAudioStartMs.push(part.startMs);
+          offset += part.bytes;
+        });
+      }
+      this.sessionMimeType = audio ? audio.mimeType : '';
+      this.savedAudioSignature = this.getAudioSignature(note.id);
+      this.downloadAudioButton.disabled = !audio;
+      this.loadPlaybackAudio();
+
+      this.renderRawTranscript();
+      this.showPolishedMarkdown(note.polishedNote);
+
+      if (this.modes.get(note.modeId)) {
+        this.currentModeId = note.modeId;
+        this.updateModeDisplay();
+        this.updateCustomPromptButtonVisibility();
+      }
+      this.updateMetadataDisplay();
+      this.initMoreMenu();
+      this.closeLibrary();
+      this.setGlobalStatus('Note loaded from library.');
+    } catch (error) {
+      console.error('Failed to load note:', error);
+      this.setGlobalStatus('Could not load note.', false, true);
+    }
+  }
+
+  /** Rebuilds the laps of a note that still has failed ones, taking their audio back from the recording journal. */
+  private async restorePendingLaps(note: Note): Promise<LapSegment[]> {
+    const laps: LapSegment[] = [];
+    for (const lap of note.pendingLaps ?? []) {
+      if (lap.status === 'done') {
+        laps.push({ ...lap, blob: new Blob() }); // Only failed laps are ever sent again
+        continue;
+      }
+      const blob = await this.noteStore.getLapAudio(note.id, lap.lapNumber);
+      if (!blob) {
+        console.warn(`No audio was kept for ${describeLap(lap)}; it can't be retried.`);
+        continue;
+      }
+      // A lap still queued or transcribing when the note was saved never finished.
+      laps.push({ ...lap, blob, status: 'failed', error: lap.error ?? 'Interrupted before it was transcribed.' });
+    }
+    return laps.some(lap => lap.status === 'failed') ? laps : [];
+  }
+
+  private async duplicateLibraryNote(noteId: string): Promise<void> {
+    try {
+      const note = await this.noteStore.getNote(noteId);
+      if (!note) return;
+      const audio = await this.noteStore.getAudio(noteId);
+      const copyId = `note_${Date.now()}`;
+      await this.noteStore.saveNote(
+        { ...note, id: copyId, timestamp: Date.now(), pendingLaps: undefined }, // Failed laps stay with the original
+        audio ? { ...audio, noteId: copyId } : null
+      );
+      await this.renderLibrary();
+    } catch (error) {
+      console.error('Failed to duplicate note:', error);
+      this.setGlobalStatus('Could not duplicate note.', false, true);
+    }
+  }
+
+  private async deleteLibraryNote(noteId: string): Promise<void> {
+    if (!confirm('Delete this note and its audio? This cannot be undone.')) return;
+    try {
+      await this.noteStore.deleteNote(noteId);
+      if (this.currentNote?.id === noteId && !this.isRecording && !this.isProcessing) {
+        this.createNewNote();
+      }
+      await this.renderLibrary();
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+      this.setGlobalStatus('Could not delete note.', false, true);
+    }
+  }
 }
 
 document.addEventListener('DOMContentLoaded', () => {